@@ -0,0 +1,51 @@
+import { bench, describe } from 'vitest';
+import {
+  decode,
+  decodeInto,
+  encode,
+  encodeMany,
+  extractPartition,
+  generateBinary,
+} from '../src';
+
+const COUNT = 1_000;
+const binaries = Array.from({ length: COUNT }, (_, i) => generateBinary(i));
+const pfids = encodeMany(binaries);
+const packed = new Uint8Array(COUNT * 20);
+decodeInto(pfids, packed);
+
+describe(`encode ${COUNT} PFIDs`, () => {
+  bench('encode', () => {
+    for (const binary of binaries) {
+      encode(binary);
+    }
+  });
+
+  bench('encodeMany (array)', () => {
+    encodeMany(binaries);
+  });
+
+  bench('encodeMany (packed)', () => {
+    encodeMany(packed);
+  });
+});
+
+describe(`decode ${COUNT} PFIDs`, () => {
+  bench('decode', () => {
+    for (const pfid of pfids) {
+      decode(pfid);
+    }
+  });
+
+  bench('decodeInto', () => {
+    decodeInto(pfids, packed);
+  });
+});
+
+describe(`extract partition from ${COUNT} PFIDs`, () => {
+  bench('extractPartition', () => {
+    for (const pfid of pfids) {
+      extractPartition(pfid);
+    }
+  });
+});
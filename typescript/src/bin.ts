@@ -0,0 +1,17 @@
+#!/usr/bin/env node
+import { readFileSync } from 'fs';
+import { run } from './cli.js';
+
+run(process.argv.slice(2), {
+  stdout: (text) => console.log(text),
+  stderr: (text) => console.error(text),
+  stdin: async () => readFileSync(0, 'utf-8'),
+})
+  .then((code) => {
+    process.exitCode = code;
+  })
+  // Anything `run` doesn't report itself, e.g. failing to read stdin
+  .catch((error: unknown) => {
+    console.error(`error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+  });
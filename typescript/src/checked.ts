@@ -0,0 +1,54 @@
+import { unsafeCheckSymbol } from './codec.js';
+import { PfidError } from './errors.js';
+import { isPfid, type Pfid } from './pfid.js';
+import { firstIssue } from './validate.js';
+
+// A checked PFID is the 32-character PFID followed by a Crockford mod-37 check symbol,
+// so a single mistyped character is caught instead of resolving to another valid ID.
+
+/**
+ * A 33 character checked PFID.
+ */
+export type CheckedPfid = string;
+
+/**
+ * Append the check symbol to a PFID.
+ * @throws {PfidError} If the PFID is invalid
+ */
+export function toChecked(pfid: Pfid): CheckedPfid {
+  if (!isPfid(pfid)) {
+    throw PfidError.invalidPfid(pfid, firstIssue(pfid));
+  }
+  return pfid + unsafeCheckSymbol(pfid);
+}
+
+/**
+ * Verify and strip the check symbol of a checked PFID.
+ * @throws {PfidError} If the PFID is invalid, or the check symbol doesn't match (`invalid_checksum`)
+ */
+export function fromChecked(text: CheckedPfid): Pfid {
+  if (typeof text !== 'string' || text.length !== 33) {
+    throw PfidError.make('invalid_pfid', text);
+  }
+
+  const pfid = text.substring(0, 32);
+  if (!isPfid(pfid)) {
+    throw PfidError.invalidPfid(text, firstIssue(pfid));
+  }
+  if (unsafeCheckSymbol(pfid) !== text[32]) {
+    throw PfidError.make('invalid_checksum', text);
+  }
+  return pfid;
+}
+
+/**
+ * Check if a string is a valid checked PFID, including its check symbol.
+ */
+export function isCheckedPfid(text: unknown): boolean {
+  return (
+    typeof text === 'string' &&
+    text.length === 33 &&
+    isPfid(text.substring(0, 32)) &&
+    unsafeCheckSymbol(text.substring(0, 32)) === text[32]
+  );
+}
@@ -0,0 +1,274 @@
+import { parseArgs } from 'util';
+import { PfidError, type PfidIssue } from './errors.js';
+import { fromBase64Url, fromHex, toBase64Url, toHex } from './formats.js';
+import { isValidPartition, isValidTimestamp } from './guards.js';
+import { parse } from './parse.js';
+import {
+  decode,
+  encode,
+  extractPartition,
+  generate,
+  generatePartition,
+  generateRelated,
+  generateRoot,
+  generateWithTimestamp,
+  type BinaryPfid,
+  type Pfid,
+} from './pfid.js';
+import { validate } from './validate.js';
+
+// The `pfid` command-line tool. Node-only, so it is not exported from the package index.
+
+export interface CliIo {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  stdin: () => Promise<string>;
+}
+
+const USAGE = `Usage: pfid <command> [options]
+
+Commands:
+  generate [partition]     Generate PFIDs
+    --timestamp <ms>       Use a Unix timestamp in milliseconds instead of now
+    --count <n>            Number of PFIDs to generate (default 1)
+    --root                 Use a random partition
+    --related <pfid>       Use the partition of an existing PFID
+  inspect <pfid...>        Show the timestamp, partition and randomness of PFIDs
+  validate                 Check PFIDs read from stdin, one per line
+  convert <value>          Convert between PFID, hex and base64 forms of the binary
+    --to <pfid|hex|base64> Only print the given form
+
+Options:
+  --json                   Print JSON output, and errors as {"error": {"code", "message"}}
+  --help                   Show this help`;
+
+const FORMATS = ['pfid', 'hex', 'base64'] as const;
+type Format = (typeof FORMATS)[number];
+
+class UsageError extends Error {}
+
+/**
+ * Run the CLI with the given arguments (without the node/script prefix).
+ * Resolves to the process exit code.
+ */
+export async function run(args: string[], io: CliIo): Promise<number> {
+  // Read before parsing, so even an argument error is reported as JSON
+  const json = args.includes('--json');
+  try {
+    const { values, positionals } = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        json: { type: 'boolean', default: false },
+        help: { type: 'boolean', default: false },
+        timestamp: { type: 'string' },
+        count: { type: 'string' },
+        root: { type: 'boolean', default: false },
+        related: { type: 'string' },
+        to: { type: 'string' },
+      },
+    });
+    const [command, ...rest] = positionals;
+
+    if (values.help || command === undefined) {
+      io.stdout(USAGE);
+      return command === undefined && !values.help ? 2 : 0;
+    }
+
+    switch (command) {
+      case 'generate':
+        return runGenerate(rest, values, io);
+      case 'inspect':
+        return runInspect(rest, values, io);
+      case 'validate':
+        return await runValidate(values, io);
+      case 'convert':
+        return runConvert(rest, values, io);
+      default:
+        throw new UsageError(`unknown command: ${command}`);
+    }
+  } catch (error) {
+    if (error instanceof PfidError) {
+      io.stderr(json ? jsonError(error.code, error.message) : `error: ${error.message}`);
+      return 1;
+    }
+    if (error instanceof UsageError || isParseArgsError(error)) {
+      const { message } = error as Error;
+      io.stderr(json ? jsonError('usage', message) : `error: ${message}\n\n${USAGE}`);
+      return 2;
+    }
+    throw error;
+  }
+}
+
+interface Options {
+  json: boolean;
+  timestamp?: string;
+  count?: string;
+  root: boolean;
+  related?: string;
+  to?: string;
+}
+
+function runGenerate(args: string[], options: Options, io: CliIo): number {
+  const sources = [args.length > 0, options.root, options.related !== undefined].filter(Boolean);
+  if (sources.length !== 1) {
+    throw new UsageError('generate needs exactly one of a partition, --root or --related');
+  }
+
+  const count = options.count === undefined ? 1 : parseInteger(options.count, '--count');
+  if (count < 1) {
+    throw new UsageError('--count must be at least 1');
+  }
+  const timestamp = options.timestamp === undefined ? undefined : parseInteger(options.timestamp, '--timestamp');
+  if (timestamp !== undefined && !isValidTimestamp(timestamp)) {
+    throw PfidError.make('invalid_timestamp', timestamp);
+  }
+  const partition = args.length > 0 ? parseInteger(args[0], 'partition') : undefined;
+  if (partition !== undefined && !isValidPartition(partition)) {
+    throw PfidError.make('invalid_partition', partition);
+  }
+
+  const next = (): Pfid => {
+    if (timestamp !== undefined) {
+      const p = partition
+        ?? (options.related === undefined ? generatePartition() : extractPartition(options.related));
+      return generateWithTimestamp(p, timestamp);
+    }
+    if (partition !== undefined) {
+      return generate(partition);
+    }
+    return options.related === undefined ? generateRoot() : generateRelated(options.related);
+  };
+
+  const pfids: Pfid[] = [];
+  for (let i = 0; i < count; i++) {
+    pfids.push(next());
+  }
+
+  io.stdout(options.json ? JSON.stringify(pfids) : pfids.join('\n'));
+  return 0;
+}
+
+function runInspect(args: string[], options: Options, io: CliIo): number {
+  if (args.length === 0) {
+    throw new UsageError('inspect needs at least one PFID');
+  }
+
+  const inspected = args.map((pfid) => {
+    const { timestamp, date, partition } = parse(pfid);
+    // The randomness is the last 10 bytes
+    return { pfid, timestamp, time: date.toISOString(), partition, randomness: toHex(decode(pfid)).substring(20) };
+  });
+
+  if (options.json) {
+    io.stdout(JSON.stringify(inspected.length === 1 ? inspected[0] : inspected));
+  } else {
+    io.stdout(
+      inspected
+        .map((i) =>
+          [
+            `pfid:       ${i.pfid}`,
+            `time:       ${i.time} (${i.timestamp})`,
+            `partition:  ${i.partition}`,
+            `randomness: ${i.randomness}`,
+          ].join('\n'),
+        )
+        .join('\n\n'),
+    );
+  }
+  return 0;
+}
+
+async function runValidate(options: Options, io: CliIo): Promise<number> {
+  const lines = (await io.stdin()).split(/\r?\n/);
+  let valid = 0;
+  const invalid: { line: number; input: string; reason: string; issues: PfidIssue[] }[] = [];
+
+  lines.forEach((input, index) => {
+    if (input.trim() === '') {
+      return;
+    }
+    const result = validate(input);
+    if (result.ok) {
+      valid++;
+    } else {
+      const reason = result.issues.map((issue) => issue.message).join('; ');
+      invalid.push({ line: index + 1, input, reason, issues: result.issues });
+    }
+  });
+
+  if (options.json) {
+    io.stdout(JSON.stringify({ valid, invalid }));
+  } else {
+    for (const { line, input, reason } of invalid) {
+      io.stdout(`line ${line}: ${JSON.stringify(input)}: ${reason}`);
+    }
+    io.stderr(`${valid} valid, ${invalid.length} invalid`);
+  }
+  return invalid.length === 0 ? 0 : 1;
+}
+
+function runConvert(args: string[], options: Options, io: CliIo): number {
+  if (args.length !== 1) {
+    throw new UsageError('convert needs exactly one value');
+  }
+  if (options.to !== undefined && !(FORMATS as readonly string[]).includes(options.to)) {
+    throw new UsageError(`--to must be one of: ${FORMATS.join(', ')}`);
+  }
+
+  const binary = readBinary(args[0]);
+  const forms: Record<Format, string> = {
+    pfid: encode(binary),
+    hex: toHex(binary),
+    base64: toBase64(binary),
+  };
+
+  if (options.to !== undefined) {
+    const form = forms[options.to as Format];
+    io.stdout(options.json ? JSON.stringify(form) : form);
+  } else if (options.json) {
+    io.stdout(JSON.stringify(forms));
+  } else {
+    io.stdout(FORMATS.map((format) => `${format}: ${forms[format]}`).join('\n'));
+  }
+  return 0;
+}
+
+/**
+ * Read a binary PFID from its PFID, hex or base64 form.
+ */
+function readBinary(value: string): BinaryPfid {
+  if (value.length === 32) {
+    return decode(value);
+  }
+  if (value.length === 40) {
+    return fromHex(value);
+  }
+  if (/^[A-Za-z0-9+/_-]{27}=?$/.test(value)) {
+    // Standard or URL-safe base64, padded or not
+    return fromBase64Url(value.replace(/=$/, '').replace(/\+/g, '-').replace(/\//g, '_'));
+  }
+  throw PfidError.make('invalid_binary', value);
+}
+
+// Standard, padded base64: the base64url form in the other alphabet
+function toBase64(binary: BinaryPfid): string {
+  return `${toBase64Url(binary).replace(/-/g, '+').replace(/_/g, '/')}=`;
+}
+
+function parseInteger(value: string, name: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw new UsageError(`${name} must be a non-negative integer, got ${JSON.stringify(value)}`);
+  }
+  return Number(value);
+}
+
+function jsonError(code: string, message: string): string {
+  return JSON.stringify({ error: { code, message } });
+}
+
+function isParseArgsError(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === 'string' && code.startsWith('ERR_PARSE_ARGS');
+}
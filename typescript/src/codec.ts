@@ -0,0 +1,272 @@
+import { PfidError } from './errors.js';
+import type { BinaryPfid, Partition, Pfid, Timestamp } from './pfid.js';
+
+// Internal encoding/decoding functions -- not part of the public API.
+
+// Crockford Base32 encoding/decoding
+export const ENCODE_CHARS = '0123456789abcdefghjkmnpqrstvwxyz';
+
+// Every pair of characters, indexed by the 10 bits they encode
+const ENCODE_PAIRS: string[] = Array.from(
+  { length: 1024 },
+  (_, value) => ENCODE_CHARS[value >> 5] + ENCODE_CHARS[value & 0x1f],
+);
+
+// The 5-bit value of each character code, or -1 -- both cases are accepted
+const DECODE_TABLE = new Int8Array(128).fill(-1);
+for (let value = 0; value < 32; value++) {
+  DECODE_TABLE[ENCODE_CHARS.charCodeAt(value)] = value;
+  DECODE_TABLE[ENCODE_CHARS.toUpperCase().charCodeAt(value)] = value;
+}
+
+/**
+ * Unsafe encode - assumes valid 20-byte buffer.
+ * Encodes 160 bits as 32 characters of Crockford Base32.
+ *
+ * Bit layout (reading from binary):
+ * - t1::3, t2::5, t3::5, t4::5, t5::5, t6::5, t7::5, t8::5, t9::5, t10::5 (48 bits timestamp)
+ * - 0::2 (2 bits padding)
+ * - p1::5, p2::5, p3::5, p4::5, p5::5, p6::5 (30 bits partition)
+ * - r1::5, r2::5, r3::5, r4::5, r5::5, r6::5, r7::5, r8::5, r9::5, r10::5, r11::5, r12::5, r13::5, r14::5, r15::5, r16::5 (80 bits randomness)
+ */
+export function unsafeEncode(binary: BinaryPfid): Pfid {
+  return unsafeEncodeAt(binary, 0);
+}
+
+/**
+ * Unsafe encode of the 20 bytes at `offset` -- assumes they are in bounds.
+ *
+ * Rather than moving one bit at a time, each section is read as whole 20- or
+ * 30-bit groups and encoded two characters (10 bits) at a time from `ENCODE_PAIRS`.
+ */
+export function unsafeEncodeAt(bytes: Uint8Array, offset: number): Pfid {
+  const o = offset;
+
+  // Timestamp: the top 18 bits (4 characters, the first only 3 bits) and the bottom 30 bits
+  const timestampHigh = (bytes[o] << 10) | (bytes[o + 1] << 2) | (bytes[o + 2] >> 6);
+  const timestampLow = ((bytes[o + 2] & 0x3f) << 24) | (bytes[o + 3] << 16) | (bytes[o + 4] << 8) | bytes[o + 5];
+
+  // Partition: 30 bits, skipping the 2 padding bits
+  const partition = ((bytes[o + 6] & 0x3f) << 24) | (bytes[o + 7] << 16) | (bytes[o + 8] << 8) | bytes[o + 9];
+
+  return (
+    ENCODE_PAIRS[timestampHigh >> 10] + ENCODE_PAIRS[timestampHigh & 0x3ff] +
+    encode30(timestampLow) +
+    encode30(partition) +
+    encode40(bytes, o + 10) +
+    encode40(bytes, o + 15)
+  );
+}
+
+function encode30(value: number): string {
+  return ENCODE_PAIRS[value >> 20] + ENCODE_PAIRS[(value >> 10) & 0x3ff] + ENCODE_PAIRS[value & 0x3ff];
+}
+
+function encode40(bytes: Uint8Array, o: number): string {
+  const high = (bytes[o] << 12) | (bytes[o + 1] << 4) | (bytes[o + 2] >> 4);
+  const low = ((bytes[o + 2] & 0x0f) << 16) | (bytes[o + 3] << 8) | bytes[o + 4];
+  return (
+    ENCODE_PAIRS[high >> 10] + ENCODE_PAIRS[high & 0x3ff] +
+    ENCODE_PAIRS[low >> 10] + ENCODE_PAIRS[low & 0x3ff]
+  );
+}
+
+/**
+ * Unsafe encode of a timestamp as the 10 characters it takes in a PFID -- assumes a
+ * valid timestamp.
+ */
+export function unsafeEncodeTimestamp(timestamp: Timestamp): string {
+  // The top 18 and bottom 30 bits, as in `unsafeEncodeAt`
+  const high = Math.floor(timestamp / 0x40000000);
+  return ENCODE_PAIRS[high >> 10] + ENCODE_PAIRS[high & 0x3ff] + encode30(timestamp % 0x40000000);
+}
+
+/**
+ * Unsafe encode of the 10 bytes (80 bits) at `offset` as 16 characters -- assumes
+ * they are in bounds.
+ */
+export function unsafeEncode80(bytes: Uint8Array, offset: number): string {
+  return encode40(bytes, offset) + encode40(bytes, offset + 5);
+}
+
+/**
+ * Unsafe decode - assumes valid 32-character string.
+ * Decodes 32 characters of Crockford Base32 to 160 bits (20 bytes).
+ * @throws {PfidError} If a character is not valid Crockford Base32
+ */
+export function unsafeDecode(pfid: string): BinaryPfid {
+  const binary = new Uint8Array(20);
+  if (!unsafeDecodeAt(pfid, binary, 0)) {
+    throw PfidError.make('invalid_character', pfid);
+  }
+  return binary;
+}
+
+/**
+ * Unsafe decode into the 20 bytes at `offset` -- assumes a 32-character string
+ * and that the bytes are in bounds.
+ *
+ * Returns false, leaving the target untouched, if a character is not valid Crockford Base32.
+ */
+export function unsafeDecodeAt(pfid: string, target: Uint8Array, offset: number): boolean {
+  const timestampHigh = decodeGroup(pfid, 0, 4);
+  const timestampLow = decodeGroup(pfid, 4, 6);
+  const partition = decodeGroup(pfid, 10, 6);
+  const r1 = decodeGroup(pfid, 16, 4);
+  const r2 = decodeGroup(pfid, 20, 4);
+  const r3 = decodeGroup(pfid, 24, 4);
+  const r4 = decodeGroup(pfid, 28, 4);
+  if ((timestampHigh | timestampLow | partition | r1 | r2 | r3 | r4) < 0) {
+    return false;
+  }
+
+  const o = offset;
+
+  // Timestamp (48 bits)
+  target[o] = timestampHigh >> 10;
+  target[o + 1] = (timestampHigh >> 2) & 0xff;
+  target[o + 2] = ((timestampHigh & 0x03) << 6) | (timestampLow >> 24);
+  target[o + 3] = (timestampLow >> 16) & 0xff;
+  target[o + 4] = (timestampLow >> 8) & 0xff;
+  target[o + 5] = timestampLow & 0xff;
+
+  // 2 padding bits (0), then partition (30 bits)
+  target[o + 6] = partition >> 24;
+  target[o + 7] = (partition >> 16) & 0xff;
+  target[o + 8] = (partition >> 8) & 0xff;
+  target[o + 9] = partition & 0xff;
+
+  // Randomness (80 bits)
+  decode40(r1, r2, target, o + 10);
+  decode40(r3, r4, target, o + 15);
+
+  return true;
+}
+
+function decode40(high: number, low: number, target: Uint8Array, o: number): void {
+  target[o] = high >> 12;
+  target[o + 1] = (high >> 4) & 0xff;
+  target[o + 2] = ((high & 0x0f) << 4) | (low >> 16);
+  target[o + 3] = (low >> 8) & 0xff;
+  target[o + 4] = low & 0xff;
+}
+
+/**
+ * Decode a timestamp from the 10 characters at `start`, or -1 if any is invalid --
+ * assumes they are in bounds.
+ */
+export function unsafeDecodeTimestamp(text: string, start: number): Timestamp {
+  const high = decodeGroup(text, start, 4);
+  const low = decodeGroup(text, start + 4, 6);
+  return (high | low) < 0 ? -1 : high * 0x40000000 + low;
+}
+
+/**
+ * Decode `count` characters (at most 6, so 30 bits) starting at `start`, or -1 if any is invalid.
+ */
+function decodeGroup(text: string, start: number, count: number): number {
+  let value = 0;
+  for (let i = start; i < start + count; i++) {
+    const char = charValue(text.charCodeAt(i));
+    if (char < 0) {
+      return -1;
+    }
+    value = (value << 5) | char;
+  }
+  return value;
+}
+
+/**
+ * The 5-bit value of a character code, or -1 if it is not Crockford Base32 in either case.
+ */
+export function charValue(code: number): number {
+  return code < 128 ? DECODE_TABLE[code] : -1;
+}
+
+// Crockford check symbols for the values 0-36 -- lowercase, like the rest of the alphabet
+const CHECK_SYMBOLS = ENCODE_CHARS + '*~$=u';
+
+/**
+ * Unsafe check symbol - assumes a valid 32-character PFID.
+ * The Crockford check symbol is the value of the whole PFID, read as a base 32 number, mod 37.
+ */
+export function unsafeCheckSymbol(pfid: Pfid): string {
+  let remainder = 0;
+  for (let i = 0; i < pfid.length; i++) {
+    remainder = (remainder * 32 + DECODE_TABLE[pfid.charCodeAt(i)]) % 37;
+  }
+  return CHECK_SYMBOLS[remainder];
+}
+
+/**
+ * Decode partition from 6-character encoded partition string.
+ * @throws {PfidError} If the partition string is invalid
+ */
+export function decodePartition(partitionStr: string): Partition {
+  if (typeof partitionStr !== 'string' || partitionStr.length !== 6) {
+    throw PfidError.make('invalid_partition', partitionStr);
+  }
+
+  // The partition is stored as: 0 (2 bits) + p1 (5 bits) + p2 (5 bits) + ... + p6 (5 bits)
+  const partition = decodeGroup(partitionStr, 0, 6);
+  if (partition < 0) {
+    throw PfidError.make('invalid_partition', partitionStr);
+  }
+  return partition;
+}
+
+/**
+ * Write a binary PFID from its parts -- assumes all parts are valid.
+ *
+ * Binary layout (20 bytes):
+ * - Bytes 0-5: timestamp (48 bits, big-endian)
+ * - Bytes 6-9: partition (32 bits, big-endian, but only 30 bits used)
+ * - Bytes 10-19: randomness (80 bits)
+ */
+export function writeBinary(partition: Partition, timestamp: Timestamp, randomness: Uint8Array): BinaryPfid {
+  const buffer = new Uint8Array(20);
+
+  // Write timestamp (48 bits = 6 bytes) - big endian
+  // JavaScript bitwise operators only work on 32 bits, so we need to use division for high bits
+  buffer[0] = Math.floor(timestamp / 0x10000000000) & 0xff; // >> 40
+  buffer[1] = Math.floor(timestamp / 0x100000000) & 0xff;   // >> 32
+  buffer[2] = (timestamp >> 24) & 0xff;
+  buffer[3] = (timestamp >> 16) & 0xff;
+  buffer[4] = (timestamp >> 8) & 0xff;
+  buffer[5] = timestamp & 0xff;
+
+  // Write partition (32 bits = 4 bytes) - big endian
+  buffer[6] = (partition >>> 24) & 0xff;
+  buffer[7] = (partition >> 16) & 0xff;
+  buffer[8] = (partition >> 8) & 0xff;
+  buffer[9] = partition & 0xff;
+
+  // Write randomness (80 bits = 10 bytes)
+  buffer.set(randomness, 10);
+
+  return buffer;
+}
+
+/**
+ * Read the 48-bit timestamp from a binary PFID.
+ */
+export function readTimestamp(binary: BinaryPfid): Timestamp {
+  // Multiply the high bytes rather than shifting, for the same reason as in `writeBinary`
+  return binary[0] * 0x10000000000 + binary[1] * 0x100000000 + readUint32(binary, 2);
+}
+
+/**
+ * Read the 30-bit partition from a binary PFID, ignoring the padding bits.
+ */
+export function readPartition(binary: BinaryPfid): Partition {
+  return readUint32(binary, 6) & 0x3fffffff;
+}
+
+/**
+ * Read a 32-bit unsigned big-endian integer.
+ */
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return (
+    ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0
+  );
+}
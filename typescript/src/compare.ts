@@ -0,0 +1,107 @@
+import { readTimestamp, unsafeEncode } from './codec.js';
+import { PfidError } from './errors.js';
+import { assertCanonicalBinary } from './guards.js';
+import { decode, isPfid, type BinaryPfid, type Pfid } from './pfid.js';
+
+// PFIDs sort by timestamp, then partition, then randomness -- the byte order of the
+// binary layout (see `generateBinaryWithTimestamp`), and the character order of the
+// lowercase string. Functions here take either form, and may mix them.
+
+/**
+ * Compare two PFIDs in sort order: negative if `a` sorts first, positive if `b` does,
+ * 0 if they are the same ID. Usable as an `Array#sort` comparator.
+ * @throws {PfidError} If either PFID is invalid
+ */
+export function compare(a: Pfid | BinaryPfid, b: Pfid | BinaryPfid): -1 | 0 | 1 {
+  // Canonical strings compare directly, without decoding
+  if (isPfid(a) && isPfid(b)) {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  const left = toBinary(a);
+  const right = toBinary(b);
+  for (let i = 0; i < 20; i++) {
+    if (left[i] !== right[i]) {
+      return left[i] < right[i] ? -1 : 1;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Check if two PFIDs are the same ID, in any mix of string and binary forms.
+ * @throws {PfidError} If either PFID is invalid
+ */
+export function equals(a: Pfid | BinaryPfid, b: Pfid | BinaryPfid): boolean {
+  return compare(a, b) === 0;
+}
+
+/**
+ * The PFID that sorts first, as it was given.
+ * @throws {PfidError} If any PFID is invalid
+ */
+export function min<T extends Pfid | BinaryPfid>(first: T, ...rest: T[]): T {
+  return rest.reduce((result, pfid) => (compare(pfid, result) < 0 ? pfid : result), check(first));
+}
+
+/**
+ * The PFID that sorts last, as it was given.
+ * @throws {PfidError} If any PFID is invalid
+ */
+export function max<T extends Pfid | BinaryPfid>(first: T, ...rest: T[]): T {
+  return rest.reduce((result, pfid) => (compare(pfid, result) > 0 ? pfid : result), check(first));
+}
+
+/**
+ * The adjacent PFID after this one in sort order, in the same form. It carries from
+ * the randomness into the partition, and from the partition into the timestamp.
+ * @throws {PfidError} If the PFID is invalid, or the largest PFID (`out_of_range`)
+ */
+export function next<T extends Pfid | BinaryPfid>(pfid: T): T {
+  return step(pfid, 1);
+}
+
+/**
+ * The adjacent PFID before this one in sort order, in the same form.
+ * @throws {PfidError} If the PFID is invalid, or the smallest PFID (`out_of_range`)
+ */
+export function prev<T extends Pfid | BinaryPfid>(pfid: T): T {
+  return step(pfid, -1);
+}
+
+/**
+ * The milliseconds between the timestamps of two PFIDs, in either order.
+ * @throws {PfidError} If either PFID is invalid
+ */
+export function timeDistance(a: Pfid | BinaryPfid, b: Pfid | BinaryPfid): number {
+  return Math.abs(readTimestamp(toBinary(b)) - readTimestamp(toBinary(a)));
+}
+
+function step<T extends Pfid | BinaryPfid>(pfid: T, delta: 1 | -1): T {
+  // Copy -- the input is never modified
+  const binary = new Uint8Array(toBinary(pfid));
+
+  // The padding bits are skipped: byte 6 only counts to 0x3f
+  for (let i = 19; i >= 0; i--) {
+    const limit = i === 6 ? 0x3f : 0xff;
+    if (delta > 0 ? binary[i] < limit : binary[i] > 0) {
+      binary[i] += delta;
+      return (typeof pfid === 'string' ? unsafeEncode(binary) : binary) as T;
+    }
+    binary[i] = delta > 0 ? 0 : limit;
+  }
+  throw PfidError.make('out_of_range', pfid);
+}
+
+function check<T extends Pfid | BinaryPfid>(pfid: T): T {
+  toBinary(pfid);
+  return pfid;
+}
+
+function toBinary(pfid: Pfid | BinaryPfid): BinaryPfid {
+  if (typeof pfid === 'string') {
+    return decode(pfid);
+  }
+  assertCanonicalBinary(pfid);
+  return pfid;
+}
@@ -0,0 +1,65 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { PfidError } from './errors.js';
+import { isValidPartition } from './guards.js';
+import { extractPartition, generate, type Partition, type Pfid } from './pfid.js';
+
+// Request-scoped partitions, so a tenant's partition doesn't need to be passed to
+// every call site. Node-only (`AsyncLocalStorage`), so it is exported from
+// `@prefactor/pfid/context` rather than the package index.
+
+const storage = new AsyncLocalStorage<Partition>();
+
+let defaultPartition: Partition | undefined;
+
+/**
+ * Run a function with an ambient partition, which `generateInContext` -- anywhere
+ * in the function, including after an `await` -- generates in. Returns what the
+ * function returns.
+ * @throws {PfidError} If the partition is invalid
+ */
+export function withPartition<T>(partition: Partition, fn: () => T): T {
+  if (!isValidPartition(partition)) {
+    throw PfidError.make('invalid_partition', partition);
+  }
+  return storage.run(partition, fn);
+}
+
+/**
+ * Run a function in the partition of an existing PFID, so the IDs it generates are
+ * related to it, as with `generateRelated`.
+ * @throws {PfidError} If the PFID is invalid
+ */
+export function withRelatedPartition<T>(existingPfid: Pfid, fn: () => T): T {
+  return storage.run(extractPartition(existingPfid), fn);
+}
+
+/**
+ * Set the partition used outside of `withPartition`, or clear it with `undefined`.
+ * @throws {PfidError} If the partition is invalid
+ */
+export function setDefaultPartition(partition: Partition | undefined): void {
+  if (partition !== undefined && !isValidPartition(partition)) {
+    throw PfidError.make('invalid_partition', partition);
+  }
+  defaultPartition = partition;
+}
+
+/**
+ * The ambient partition, falling back to the default partition -- or `undefined` if
+ * there is neither.
+ */
+export function currentPartition(): Partition | undefined {
+  return storage.getStore() ?? defaultPartition;
+}
+
+/**
+ * Generate a PFID with the current time in the ambient partition.
+ * @throws {PfidError} If there is no ambient or default partition
+ */
+export function generateInContext(): Pfid {
+  const partition = currentPartition();
+  if (partition === undefined) {
+    throw PfidError.make('no_partition', undefined);
+  }
+  return generate(partition);
+}
@@ -0,0 +1,71 @@
+import { sql, type SQL, type SQLWrapper } from 'drizzle-orm';
+import { customType, type ConvertCustomConfig, type PgCustomColumnBuilder } from 'drizzle-orm/pg-core';
+import { assertCanonicalBinary } from './guards.js';
+import { decode, encode, type BinaryPfid, type Partition, type Pfid, type Timestamp } from './pfid.js';
+import { rangeForBinary } from './range.js';
+
+// A Drizzle column type for PFIDs stored as 20-byte `bytea`. Drizzle converts values
+// through the column, so queries and rows hold PFID strings (or binaries) throughout.
+
+export interface PfidColumnConfig {
+  // How the column reads and writes PFIDs in application code: as strings (the default) or binaries
+  mode?: 'string' | 'binary';
+}
+
+type PfidStringType = { data: Pfid; driverData: Uint8Array };
+type PfidBinaryType = { data: BinaryPfid; driverData: Uint8Array };
+
+const pfidString = customType<PfidStringType>({
+  dataType: () => 'bytea',
+  toDriver: (pfid) => decode(pfid),
+  fromDriver: (value) => encode(value),
+});
+
+const pfidBinary = customType<PfidBinaryType>({
+  dataType: () => 'bytea',
+  toDriver: (binary) => {
+    assertCanonicalBinary(binary);
+    return binary;
+  },
+  fromDriver: (value) => {
+    assertCanonicalBinary(value);
+    // Copy, so the column reads as a plain `Uint8Array` rather than the driver's `Buffer`
+    return new Uint8Array(value);
+  },
+});
+
+/**
+ * A `bytea` column of PFIDs, read and written as PFID strings -- or, with
+ * `{ mode: 'binary' }`, as binary PFIDs. Invalid PFIDs throw `PfidError` in either
+ * direction.
+ */
+export function pfid(config: { mode: 'binary' }): PgCustomColumnBuilder<ConvertCustomConfig<'', PfidBinaryType>>;
+export function pfid(config?: { mode?: 'string' }): PgCustomColumnBuilder<ConvertCustomConfig<'', PfidStringType>>;
+export function pfid<Name extends string>(
+  name: Name,
+  config: { mode: 'binary' },
+): PgCustomColumnBuilder<ConvertCustomConfig<Name, PfidBinaryType>>;
+export function pfid<Name extends string>(
+  name: Name,
+  config?: { mode?: 'string' },
+): PgCustomColumnBuilder<ConvertCustomConfig<Name, PfidStringType>>;
+export function pfid(
+  nameOrConfig?: string | PfidColumnConfig,
+  config?: PfidColumnConfig,
+):
+  | PgCustomColumnBuilder<ConvertCustomConfig<string, PfidStringType>>
+  | PgCustomColumnBuilder<ConvertCustomConfig<string, PfidBinaryType>> {
+  const name = typeof nameOrConfig === 'string' ? nameOrConfig : '';
+  const mode = (typeof nameOrConfig === 'string' ? config : nameOrConfig)?.mode ?? 'string';
+  return mode === 'binary' ? pfidBinary(name) : pfidString(name);
+}
+
+/**
+ * A condition matching every PFID in a column created between two timestamps -- in a
+ * partition at the ends, if given (see `rangeFor`). Works with either mode.
+ * @throws {PfidError} If a timestamp or the partition is invalid, or `start` is after `end`
+ */
+export function pfidBetween(column: SQLWrapper, start: Timestamp, end: Timestamp, partition?: Partition): SQL {
+  const { lower, upper } = rangeForBinary(start, end, partition);
+  return sql`${column} between ${lower} and ${upper}`;
+}
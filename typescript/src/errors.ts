@@ -1,26 +1,150 @@
-export type PfidErrorCode = 'invalid_binary' | 'invalid_pfid' | 'invalid_partition';
+export type PfidErrorCode =
+  | 'invalid_binary'
+  | 'non_canonical_binary'
+  | 'invalid_pfid'
+  | 'invalid_character'
+  | 'invalid_partition'
+  | 'invalid_timestamp'
+  | 'invalid_randomness'
+  | 'invalid_parts'
+  | 'invalid_checksum'
+  | 'randomness_overflow'
+  | 'invalid_key'
+  | 'invalid_token'
+  | 'wrong_key'
+  | 'invalid_signature'
+  | 'token_expired'
+  | 'out_of_range'
+  | 'invalid_prefix'
+  | 'unknown_prefix'
+  | 'no_partition'
+  | 'invalid_shard_map'
+  | 'invalid_ulid'
+  | 'invalid_uuid'
+  | 'unknown_format'
+  | 'invalid_target'
+  | 'invalid_offset'
+  | 'no_crypto';
+
+/**
+ * Why a PFID string or binary is invalid.
+ */
+export type PfidIssueReason =
+  | 'invalid_type' // neither a string nor a Uint8Array
+  | 'wrong_length' // not 32 characters, or not 20 bytes
+  | 'timestamp_overflow' // first character above 7
+  | 'invalid_character' // not Crockford Base32
+  | 'non_canonical_case' // uppercase
+  | 'non_zero_padding' // bits 48-49 of a binary are set
+  | 'invalid_checksum'; // the check symbol of a checked PFID doesn't match
+
+export interface PfidIssue {
+  reason: PfidIssueReason;
+  // The character index in a string, or the bit index in a binary
+  position?: number;
+  message: string;
+}
 
 export class PfidError extends Error {
   public readonly code: PfidErrorCode;
+  public readonly reason?: PfidIssueReason;
+  public readonly position?: number;
 
-  constructor(code: PfidErrorCode, message: string) {
+  constructor(code: PfidErrorCode, message: string, issue?: PfidIssue) {
     super(message);
     this.name = 'PfidError';
     this.code = code;
+    this.reason = issue?.reason;
+    this.position = issue?.position;
     Object.setPrototypeOf(this, PfidError.prototype);
   }
 
-  static make(code: PfidErrorCode, problem: unknown): PfidError {
+  static make(code: PfidErrorCode, problem: unknown, issue?: PfidIssue): PfidError {
+    const description = issue === undefined ? describe(problem) : `${issue.message}: ${describe(problem)}`;
     const message = (() => {
       switch (code) {
         case 'invalid_binary':
-          return `invalid binary PFID: ${JSON.stringify(problem)}`;
+          return `invalid binary PFID: ${description}`;
+        case 'non_canonical_binary':
+          return `non-canonical binary PFID: ${description}`;
         case 'invalid_pfid':
-          return `invalid PFID: ${JSON.stringify(problem)}`;
+        case 'invalid_character':
+          return `invalid PFID: ${description}`;
         case 'invalid_partition':
-          return `invalid partition: ${JSON.stringify(problem)}`;
+          return `invalid partition: ${description}`;
+        case 'invalid_timestamp':
+          return `invalid timestamp: ${description}`;
+        case 'invalid_randomness':
+          return `invalid randomness: ${description}`;
+        case 'invalid_parts':
+          return `expected { timestamp, partition, randomness }, got ${description}`;
+        case 'invalid_checksum':
+          return `invalid check symbol: ${description}`;
+        case 'randomness_overflow':
+          return `randomness overflow for partition: ${description}`;
+        case 'invalid_key':
+          // Callers describe the key by its shape, never by the secret itself
+          return `invalid key: ${description}`;
+        case 'invalid_token':
+          return `invalid token: ${description}`;
+        case 'wrong_key':
+          return `no matching key for token: ${description}`;
+        case 'invalid_signature':
+          return `invalid signature: ${description}`;
+        case 'token_expired':
+          return `token expired: ${description}`;
+        case 'out_of_range':
+          return `no adjacent PFID: ${description}`;
+        case 'invalid_prefix':
+          return `invalid prefix: ${description}`;
+        case 'unknown_prefix':
+          return `unknown prefix: ${description}`;
+        case 'invalid_shard_map':
+          return `invalid shard map: ${description}`;
+        case 'invalid_ulid':
+          return `invalid ULID: ${description}`;
+        case 'invalid_uuid':
+          return `invalid UUIDv7: ${description}`;
+        case 'unknown_format':
+          return `unknown PFID format: ${description}`;
+        case 'invalid_target':
+          return `target too small: ${description}`;
+        case 'invalid_offset':
+          return `invalid offset: ${description}`;
+        case 'no_partition':
+          return 'no partition in context: generate within withPartition(), or set a default partition';
+        case 'no_crypto':
+          return 'no Web Crypto: crypto.getRandomValues needs Node 20 or later, or pass a random source';
       }
     })();
-    return new PfidError(code, message);
+    return new PfidError(code, message, issue);
+  }
+
+  /**
+   * The error for an invalid PFID string: `invalid_character` if its first issue is a
+   * character outside the alphabet, otherwise `invalid_pfid`.
+   */
+  static invalidPfid(problem: unknown, issue?: PfidIssue): PfidError {
+    return PfidError.make(issue?.reason === 'invalid_character' ? 'invalid_character' : 'invalid_pfid', problem, issue);
+  }
+}
+
+function describe(problem: unknown): string {
+  if (problem instanceof Uint8Array) {
+    // Hex rather than JSON, which would dump every byte as an object key
+    let hex = '';
+    for (const byte of problem) {
+      hex += byte.toString(16).padStart(2, '0');
+    }
+    return `<${problem.length} bytes: ${hex}>`;
+  }
+  if (typeof problem === 'bigint') {
+    // JSON can't represent a bigint
+    return `${problem}n`;
+  }
+  if (typeof problem === 'number' && !Number.isFinite(problem)) {
+    // Nor NaN or an infinity, which it writes as null
+    return String(problem);
   }
+  return JSON.stringify(problem) ?? String(problem);
 }
@@ -0,0 +1,150 @@
+// Internal FF1 format-preserving encryption (NIST SP 800-38G) over AES from Web
+// Crypto, which only offers AES-CBC -- the first block of a CBC encryption with a
+// zero IV is the raw AES block cipher. Strings are arrays of digits in `radix`.
+
+const ZERO_IV = new Uint8Array(16);
+
+// The global `CryptoKey` type, which the ES2020 lib doesn't declare
+type AesKey = Awaited<ReturnType<typeof crypto.subtle.importKey>>;
+
+/**
+ * Import raw AES-128, AES-192 or AES-256 key bytes for use with `ff1Encrypt` and `ff1Decrypt`.
+ */
+export function importAesKey(secret: Uint8Array): Promise<AesKey> {
+  return crypto.subtle.importKey('raw', secret, { name: 'AES-CBC' }, false, ['encrypt']);
+}
+
+export async function ff1Encrypt(
+  key: AesKey,
+  tweak: Uint8Array,
+  radix: number,
+  digits: readonly number[],
+): Promise<number[]> {
+  const { u, v, b, d, p } = setup(tweak, radix, digits.length);
+  let a = digits.slice(0, u);
+  let c = digits.slice(u);
+
+  for (let i = 0; i < 10; i++) {
+    const m = i % 2 === 0 ? u : v;
+    const y = await roundValue(key, p, tweak, i, num(c, radix), b, d);
+    const next = str((num(a, radix) + y) % BigInt(radix) ** BigInt(m), radix, m);
+    a = c;
+    c = next;
+  }
+  return [...a, ...c];
+}
+
+export async function ff1Decrypt(
+  key: AesKey,
+  tweak: Uint8Array,
+  radix: number,
+  digits: readonly number[],
+): Promise<number[]> {
+  const { u, v, b, d, p } = setup(tweak, radix, digits.length);
+  let a = digits.slice(0, u);
+  let c = digits.slice(u);
+
+  for (let i = 9; i >= 0; i--) {
+    const m = i % 2 === 0 ? u : v;
+    const modulus = BigInt(radix) ** BigInt(m);
+    const y = await roundValue(key, p, tweak, i, num(a, radix), b, d);
+    const previous = str((((num(c, radix) - y) % modulus) + modulus) % modulus, radix, m);
+    c = a;
+    a = previous;
+  }
+  return [...a, ...c];
+}
+
+function setup(tweak: Uint8Array, radix: number, n: number) {
+  const u = Math.floor(n / 2);
+  const v = n - u;
+  const b = Math.ceil(Math.ceil(v * Math.log2(radix)) / 8);
+  const d = 4 * Math.ceil(b / 4) + 4;
+
+  // P = [1, 2, 1] || radix (3 bytes) || [10] || u mod 256 || n (4 bytes) || t (4 bytes)
+  const p = new Uint8Array(16);
+  const view = new DataView(p.buffer);
+  p.set([1, 2, 1, (radix >> 16) & 0xff, (radix >> 8) & 0xff, radix & 0xff, 10]);
+  p[7] = u % 256;
+  view.setUint32(8, n);
+  view.setUint32(12, tweak.length);
+
+  return { u, v, b, d, p };
+}
+
+// y = NUM(S), where S is the first d bytes of R || CIPH(R ^ 1) || CIPH(R ^ 2) ...
+async function roundValue(
+  key: AesKey,
+  p: Uint8Array,
+  tweak: Uint8Array,
+  round: number,
+  value: bigint,
+  b: number,
+  d: number,
+): Promise<bigint> {
+  // Q = T || zeros || round || value (b bytes), padded so P || Q is whole blocks
+  const padding = (((-tweak.length - b - 1) % 16) + 16) % 16;
+  const q = new Uint8Array(tweak.length + padding + 1 + b);
+  q.set(tweak);
+  q[tweak.length + padding] = round;
+  for (let i = q.length - 1, rest = value; i > tweak.length + padding; i--, rest >>= 8n) {
+    q[i] = Number(rest & 0xffn);
+  }
+
+  const message = new Uint8Array(p.length + q.length);
+  message.set(p);
+  message.set(q, p.length);
+  const r = await cbcMac(key, message);
+
+  const s = new Uint8Array(Math.ceil(d / 16) * 16);
+  s.set(r);
+  for (let j = 1; j * 16 < d; j++) {
+    s.set(await cipher(key, xorCounter(r, j)), j * 16);
+  }
+
+  let y = 0n;
+  for (let i = 0; i < d; i++) {
+    y = (y << 8n) | BigInt(s[i]);
+  }
+  return y;
+}
+
+function xorCounter(block: Uint8Array, j: number): Uint8Array {
+  const result = new Uint8Array(block);
+  const view = new DataView(result.buffer);
+  view.setUint32(12, (view.getUint32(12) ^ j) >>> 0);
+  return result;
+}
+
+// CBC-MAC: the last block of the CBC encryption with a zero IV. Web Crypto appends
+// a block of PKCS#7 padding, which is skipped.
+async function cbcMac(key: AesKey, message: Uint8Array): Promise<Uint8Array> {
+  const encrypted = new Uint8Array(
+    await crypto.subtle.encrypt({ name: 'AES-CBC', iv: ZERO_IV }, key, message),
+  );
+  return encrypted.subarray(message.length - 16, message.length);
+}
+
+// The block cipher itself: the CBC-MAC of a single block
+function cipher(key: AesKey, block: Uint8Array): Promise<Uint8Array> {
+  return cbcMac(key, block);
+}
+
+function num(digits: readonly number[], radix: number): bigint {
+  const base = BigInt(radix);
+  let value = 0n;
+  for (const digit of digits) {
+    value = value * base + BigInt(digit);
+  }
+  return value;
+}
+
+function str(value: bigint, radix: number, length: number): number[] {
+  const base = BigInt(radix);
+  const digits = new Array<number>(length);
+  for (let i = length - 1; i >= 0; i--) {
+    digits[i] = Number(value % base);
+    value /= base;
+  }
+  return digits;
+}
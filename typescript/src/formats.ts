@@ -0,0 +1,171 @@
+import { PfidError } from './errors.js';
+import { assertCanonicalBinary } from './guards.js';
+import { isPfid, type BinaryPfid, type Pfid } from './pfid.js';
+import { firstIssue } from './validate.js';
+
+// Other shapes of the same 160 bits, for systems that can't take the PFID string.
+// Every form round-trips losslessly through the binary, and each `from*` rejects a
+// binary that `encode` would, so a value has exactly one representation in each form.
+
+/**
+ * A display format for `format` and `parseFormatted`.
+ *
+ * - `grouped`: The timestamp, partition and randomness sections separated by hyphens,
+ *   e.g. `01an4z07by-d9df0k-79ka1307sr9x4mv3`
+ */
+export type PfidFormat = 'grouped';
+
+const BASE64URL_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+/**
+ * Convert a binary PFID to 40 lowercase hex characters.
+ * @throws {PfidError} If the binary is invalid
+ */
+export function toHex(binary: BinaryPfid): string {
+  assertCanonicalBinary(binary);
+
+  let hex = '';
+  for (const byte of binary) {
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+}
+
+/**
+ * Convert 40 hex characters, in either case, to a binary PFID.
+ * @throws {PfidError} If the hex is invalid, or the binary is not canonical
+ */
+export function fromHex(hex: string): BinaryPfid {
+  if (typeof hex !== 'string' || !/^[0-9a-fA-F]{40}$/.test(hex)) {
+    throw PfidError.make('invalid_binary', hex);
+  }
+
+  const binary = new Uint8Array(20);
+  for (let i = 0; i < 20; i++) {
+    binary[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+  }
+  assertCanonicalBinary(binary);
+  return binary;
+}
+
+/**
+ * Convert a binary PFID to 27 characters of unpadded base64url (RFC 4648).
+ * @throws {PfidError} If the binary is invalid
+ */
+export function toBase64Url(binary: BinaryPfid): string {
+  assertCanonicalBinary(binary);
+
+  let text = '';
+  // 6 groups of 3 bytes, then the last 2 bytes (16 bits) as 3 characters
+  for (let i = 0; i < 18; i += 3) {
+    const group = (binary[i] << 16) | (binary[i + 1] << 8) | binary[i + 2];
+    text +=
+      BASE64URL_CHARS[group >> 18] +
+      BASE64URL_CHARS[(group >> 12) & 0x3f] +
+      BASE64URL_CHARS[(group >> 6) & 0x3f] +
+      BASE64URL_CHARS[group & 0x3f];
+  }
+  const last = (binary[18] << 8) | binary[19];
+  return text + BASE64URL_CHARS[last >> 10] + BASE64URL_CHARS[(last >> 4) & 0x3f] + BASE64URL_CHARS[(last << 2) & 0x3f];
+}
+
+/**
+ * Convert 27 characters of unpadded base64url to a binary PFID.
+ * @throws {PfidError} If the base64url is invalid, or the binary is not canonical
+ */
+export function fromBase64Url(text: string): BinaryPfid {
+  if (typeof text !== 'string' || !/^[A-Za-z0-9_-]{27}$/.test(text)) {
+    throw PfidError.make('invalid_binary', text);
+  }
+
+  const values = Array.from(text, (char) => BASE64URL_CHARS.indexOf(char));
+  // The last character carries 4 bits, then 2 unused bits that must be zero
+  if ((values[26] & 0x03) !== 0) {
+    throw PfidError.make('invalid_binary', text);
+  }
+
+  const binary = new Uint8Array(20);
+  for (let i = 0, j = 0; i < 18; i += 3, j += 4) {
+    const group = (values[j] << 18) | (values[j + 1] << 12) | (values[j + 2] << 6) | values[j + 3];
+    binary[i] = group >> 16;
+    binary[i + 1] = (group >> 8) & 0xff;
+    binary[i + 2] = group & 0xff;
+  }
+  const last = (values[24] << 10) | (values[25] << 4) | (values[26] >> 2);
+  binary[18] = last >> 8;
+  binary[19] = last & 0xff;
+  assertCanonicalBinary(binary);
+  return binary;
+}
+
+/**
+ * Convert a binary PFID to an unsigned 160-bit integer. Integers sort in the same
+ * order as binaries and PFID strings.
+ * @throws {PfidError} If the binary is invalid
+ */
+export function toBigInt(binary: BinaryPfid): bigint {
+  assertCanonicalBinary(binary);
+
+  let value = 0n;
+  for (const byte of binary) {
+    value = (value << 8n) | BigInt(byte);
+  }
+  return value;
+}
+
+/**
+ * Convert an unsigned 160-bit integer to a binary PFID.
+ * @throws {PfidError} If the integer is out of range, or the binary is not canonical
+ */
+export function fromBigInt(value: bigint): BinaryPfid {
+  if (typeof value !== 'bigint' || value < 0n || value >> 160n !== 0n) {
+    throw PfidError.make('invalid_binary', value);
+  }
+
+  const binary = new Uint8Array(20);
+  let rest = value;
+  for (let i = 19; i >= 0; i--) {
+    binary[i] = Number(rest & 0xffn);
+    rest >>= 8n;
+  }
+  assertCanonicalBinary(binary);
+  return binary;
+}
+
+/**
+ * Format a PFID for display.
+ * @throws {PfidError} If the PFID is invalid, or the format is unknown (`unknown_format`)
+ */
+export function format(pfid: Pfid, style: PfidFormat): string {
+  checkFormat(style);
+  if (!isPfid(pfid)) {
+    throw PfidError.invalidPfid(pfid, firstIssue(pfid));
+  }
+
+  return `${pfid.substring(0, 10)}-${pfid.substring(10, 16)}-${pfid.substring(16)}`;
+}
+
+/**
+ * Read a PFID back from a display format, which must match it exactly apart from case,
+ * as for `fromHex` and `decode` -- use lenient mode to read IDs typed by hand.
+ * @throws {PfidError} If the text is not a PFID in the format, or the format is unknown (`unknown_format`)
+ */
+export function parseFormatted(text: string, style: PfidFormat): Pfid {
+  checkFormat(style);
+  if (typeof text !== 'string' || text.length !== 34 || text[10] !== '-' || text[17] !== '-') {
+    throw PfidError.make('invalid_pfid', text);
+  }
+
+  const joined = text.substring(0, 10) + text.substring(11, 17) + text.substring(18);
+  const pfid = joined.toLowerCase();
+  if (!isPfid(pfid)) {
+    throw PfidError.invalidPfid(text, firstIssue(joined, true));
+  }
+  return pfid;
+}
+
+function checkFormat(style: PfidFormat): void {
+  if (style !== 'grouped') {
+    throw PfidError.make('unknown_format', style);
+  }
+}
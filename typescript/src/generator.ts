@@ -0,0 +1,146 @@
+import { unsafeEncode, writeBinary } from './codec.js';
+import { PfidError } from './errors.js';
+import { isValidPartition, isValidTimestamp } from './guards.js';
+import type { BinaryPfid, Partition, Pfid, Timestamp } from './pfid.js';
+
+/**
+ * A source of the current time, in milliseconds since the Unix epoch.
+ */
+export type Clock = () => Timestamp;
+
+/**
+ * A source of random bytes -- must return exactly `size` bytes.
+ */
+export type RandomSource = (size: number) => Uint8Array;
+
+export interface PfidGeneratorOptions {
+  clock?: Clock;
+  random?: RandomSource;
+}
+
+/**
+ * A stateful, monotonic PFID generator.
+ *
+ * Within a single millisecond and partition, each PFID increments the 80-bit
+ * randomness of the previous one instead of drawing fresh bytes, so IDs minted
+ * by the same generator always sort in the order they were created.
+ *
+ * - If the clock goes backwards, the last timestamp is kept (and incremented
+ *   from) until the clock catches up again.
+ * - If the randomness overflows within one millisecond, a `PfidError` with the
+ *   `randomness_overflow` code is thrown -- that takes 2^80 IDs, so in practice
+ *   it means the random source is broken.
+ */
+export class PfidGenerator {
+  private readonly clock: Clock;
+  private readonly random: RandomSource;
+  private lastTimestamp = -1;
+  // Last randomness per partition, only for partitions seen at `lastTimestamp`.
+  private readonly lastRandomness = new Map<Partition, Uint8Array>();
+
+  constructor(options: PfidGeneratorOptions = {}) {
+    this.clock = options.clock ?? Date.now;
+    this.random = options.random ?? randomBytes;
+  }
+
+  /**
+   * Generate a Crockford Base32 encoded PFID string with the generator's current time.
+   * @throws {PfidError} If the partition, or the clock's timestamp, is invalid
+   */
+  generate(partition: Partition): Pfid {
+    return unsafeEncode(this.generateBinary(partition));
+  }
+
+  /**
+   * Generate a binary PFID with the generator's current time.
+   * @throws {PfidError} If the partition, or the clock's timestamp, is invalid
+   */
+  generateBinary(partition: Partition): BinaryPfid {
+    if (!isValidPartition(partition)) {
+      throw PfidError.make('invalid_partition', partition);
+    }
+
+    let timestamp = this.clock();
+    if (!isValidTimestamp(timestamp)) {
+      throw PfidError.make('invalid_timestamp', timestamp);
+    }
+
+    if (timestamp > this.lastTimestamp) {
+      this.lastTimestamp = timestamp;
+      this.lastRandomness.clear();
+    } else {
+      // Same millisecond, or the clock went backwards -- stay on the last timestamp.
+      timestamp = this.lastTimestamp;
+    }
+
+    const previous = this.lastRandomness.get(partition);
+    const randomness = previous === undefined
+      ? this.randomness()
+      : incrementRandomness(previous, partition);
+    this.lastRandomness.set(partition, randomness);
+
+    return writeBinary(partition, timestamp, randomness);
+  }
+
+  /**
+   * Generate a binary PFID with a provided Unix timestamp.
+   *
+   * An explicit timestamp bypasses the monotonic state: the randomness is always fresh.
+   * @throws {PfidError} If the partition or timestamp is invalid
+   */
+  generateBinaryWithTimestamp(partition: Partition, timestamp: Timestamp): BinaryPfid {
+    if (!isValidPartition(partition)) {
+      throw PfidError.make('invalid_partition', partition);
+    }
+    if (!isValidTimestamp(timestamp)) {
+      throw PfidError.make('invalid_timestamp', timestamp);
+    }
+    return writeBinary(partition, timestamp, this.randomness());
+  }
+
+  /**
+   * Generate a random partition.
+   */
+  generatePartition(): Partition {
+    const bytes = this.random(4);
+    // Read as 32-bit unsigned integer, but only use 30 bits
+    return ((bytes[0] << 24) | (bytes[1] << 16) | (bytes[2] << 8) | bytes[3]) & 0x3fffffff;
+  }
+
+  private randomness(): Uint8Array {
+    const randomness = this.random(10);
+    if (randomness.length !== 10) {
+      throw PfidError.make('invalid_randomness', randomness);
+    }
+    // Copy, so a source that reuses its buffer can't disturb the monotonic state
+    return new Uint8Array(randomness);
+  }
+}
+
+/**
+ * The default random source: Web Crypto, available in Node 20+, browsers, Deno and workers.
+ * @throws {PfidError} If the runtime has no Web Crypto (`no_crypto`)
+ */
+function randomBytes(size: number): Uint8Array {
+  // Read off `globalThis`, so an older Node reports the missing global rather than a TypeError
+  if (typeof globalThis.crypto?.getRandomValues !== 'function') {
+    throw PfidError.make('no_crypto', undefined);
+  }
+  return globalThis.crypto.getRandomValues(new Uint8Array(size));
+}
+
+/**
+ * Add one to the 80-bit big-endian randomness, returning a new buffer.
+ * @throws {PfidError} If the randomness is already all ones
+ */
+function incrementRandomness(randomness: Uint8Array, partition: Partition): Uint8Array {
+  const next = new Uint8Array(randomness);
+  for (let i = next.length - 1; i >= 0; i--) {
+    if (next[i] < 0xff) {
+      next[i]++;
+      return next;
+    }
+    next[i] = 0;
+  }
+  throw PfidError.make('randomness_overflow', partition);
+}
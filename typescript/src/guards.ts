@@ -0,0 +1,36 @@
+// Internal validation shared by the generation and decoding modules.
+
+import { PfidError } from './errors.js';
+import { firstIssue } from './validate.js';
+
+// Constants
+export const MAX_TIMESTAMP = 281_474_976_710_655; // 2^48 - 1
+export const MAX_PARTITION = 1_073_741_823; // 2^30 - 1
+
+// Validation guards
+export function isValidTimestamp(timestamp: number): boolean {
+  return Number.isInteger(timestamp) && timestamp >= 0 && timestamp <= MAX_TIMESTAMP;
+}
+
+export function isValidPartition(partition: number): boolean {
+  return Number.isInteger(partition) && partition >= 0 && partition <= MAX_PARTITION;
+}
+
+export function isValidBinary(binary: unknown): binary is Uint8Array {
+  return binary instanceof Uint8Array && binary.length === 20;
+}
+
+// The padding bits 48-49 (the top 2 bits of byte 6) of the binary at `offset` are clear
+export function isCanonicalBinary(bytes: Uint8Array, offset = 0): boolean {
+  return (bytes[offset + 6] & 0xc0) === 0;
+}
+
+// Throw `invalid_binary` or `non_canonical_binary` unless the binary can be encoded
+export function assertCanonicalBinary(binary: unknown): asserts binary is Uint8Array {
+  if (!isValidBinary(binary)) {
+    throw PfidError.make('invalid_binary', binary, firstIssue(binary));
+  }
+  if (!isCanonicalBinary(binary)) {
+    throw PfidError.make('non_canonical_binary', binary, firstIssue(binary));
+  }
+}
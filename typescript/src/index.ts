@@ -10,12 +10,112 @@ export {
   isPfid,
   encode,
   decode,
+  encodeMany,
+  canonicalize,
+  decodeInto,
   extractPartition,
   generatePartition,
+  normalize,
+  type ParseMode,
+  type ParseOptions,
   type Pfid,
   type BinaryPfid,
   type Partition,
   type Timestamp,
-} from './pfid';
+} from './pfid.js';
 
-export { PfidError, type PfidErrorCode } from './errors';
+export {
+  parse,
+  compose,
+  composeBinary,
+  type PfidParts,
+  type ParsedPfid,
+} from './parse.js';
+
+export { fromUlid, fromUuidV7, toUlid, toUuidV7 } from './migrate.js';
+
+export {
+  toChecked,
+  fromChecked,
+  isCheckedPfid,
+  type CheckedPfid,
+} from './checked.js';
+
+export { partitionFromKey, type PartitionFromKeyOptions } from './partition.js';
+
+export { ShardMap, type ShardRange, type ShardMapJson, type PartitionMove } from './shard.js';
+
+export { compare, equals, min, max, next, prev, timeDistance } from './compare.js';
+
+export { PfidValue } from './value.js';
+
+export { definePfidType, type PfidType } from './typed.js';
+
+export {
+  registerPrefix,
+  generatePrefixed,
+  parsePrefixed,
+  isPrefixedPfid,
+  type PrefixedPfid,
+  type PrefixOptions,
+  type ParsedPrefixedPfid,
+} from './prefix.js';
+
+export {
+  toHex,
+  fromHex,
+  toBase64Url,
+  fromBase64Url,
+  toBigInt,
+  fromBigInt,
+  format,
+  parseFormatted,
+  type PfidFormat,
+} from './formats.js';
+
+export { seal, unseal, sealedKeyId, type SealedPfid, type SealingKey } from './seal.js';
+
+export {
+  sign,
+  verify,
+  type SignedPfid,
+  type SigningSecret,
+  type SignOptions,
+  type VerifyOptions,
+} from './sign.js';
+
+export {
+  lowerBound,
+  upperBound,
+  lowerBoundBinary,
+  upperBoundBinary,
+  rangeFor,
+  rangeForBinary,
+  type PfidRange,
+} from './range.js';
+
+export {
+  PfidGenerator,
+  type PfidGeneratorOptions,
+  type Clock,
+  type RandomSource,
+} from './generator.js';
+
+export {
+  createPfidFactory,
+  createSeededRandom,
+  createFakeClock,
+  type PfidFactory,
+  type FakeClock,
+} from './factory.js';
+
+export { validate, type ValidationResult } from './validate.js';
+
+export { safe, type PfidResult } from './safe.js';
+
+export {
+  PfidError,
+  type PfidErrorCode,
+  type PfidIssue,
+  type PfidIssueReason,
+} from './errors.js';
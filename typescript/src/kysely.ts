@@ -0,0 +1,162 @@
+import {
+  AndNode,
+  ColumnNode,
+  ColumnUpdateNode,
+  OperationNodeTransformer,
+  PrimitiveValueListNode,
+  ReferenceNode,
+  sql,
+  ValueListNode,
+  ValueNode,
+  ValuesNode,
+  type BinaryOperationNode,
+  type InsertQueryNode,
+  type KyselyPlugin,
+  type OperationNode,
+  type PluginTransformQueryArgs,
+  type PluginTransformResultArgs,
+  type QueryResult,
+  type RawBuilder,
+  type RootOperationNode,
+  type SqlBool,
+  type UnknownRow,
+} from 'kysely';
+import { decode, encode, type Partition, type Timestamp } from './pfid.js';
+import { rangeForBinary } from './range.js';
+
+// A Kysely plugin for PFIDs stored as 20-byte `bytea`. Kysely has no column types, so
+// the plugin rewrites each query's operation tree and each result row instead.
+
+export interface PfidPluginOptions {
+  // The PFID columns, by name -- as written in queries, and as they come back in rows,
+  // in any table
+  columns: readonly string[];
+}
+
+/**
+ * Converts PFID strings to binaries on the way into the database, and back on the way
+ * out, for the given columns: compared values (`=`, `in`, `between`, ...), inserted
+ * values and updated values, and selected values in result rows. Binaries are passed
+ * through as they are.
+ *
+ * Values given as raw `sql` are not converted.
+ *
+ * Result rows say nothing of the table a value came from, so a binary in a column of
+ * the given name is converted whichever table or alias it is from -- and throws if it
+ * isn't a PFID. Give other `bytea` columns other names, in the schema or with `as`.
+ */
+export class PfidPlugin implements KyselyPlugin {
+  private readonly columns: ReadonlySet<string>;
+  private readonly transformer: PfidTransformer;
+
+  constructor(options: PfidPluginOptions) {
+    this.columns = new Set(options.columns);
+    this.transformer = new PfidTransformer(this.columns);
+  }
+
+  transformQuery(args: PluginTransformQueryArgs): RootOperationNode {
+    return this.transformer.transformNode(args.node);
+  }
+
+  async transformResult(args: PluginTransformResultArgs): Promise<QueryResult<UnknownRow>> {
+    const { result } = args;
+    return { ...result, rows: result.rows.map((row) => this.transformRow(row)) };
+  }
+
+  private transformRow(row: UnknownRow): UnknownRow {
+    let copy: UnknownRow | undefined;
+    for (const column of this.columns) {
+      const value = row[column];
+      if (value instanceof Uint8Array) {
+        copy ??= { ...row };
+        copy[column] = encode(value);
+      }
+    }
+    return copy ?? row;
+  }
+}
+
+/**
+ * A condition matching every PFID in a column created between two timestamps -- in a
+ * partition at the ends, if given (see `rangeFor`).
+ * @throws {PfidError} If a timestamp or the partition is invalid, or `start` is after `end`
+ */
+export function pfidBetween(column: string, start: Timestamp, end: Timestamp, partition?: Partition): RawBuilder<SqlBool> {
+  const { lower, upper } = rangeForBinary(start, end, partition);
+  return sql<SqlBool>`${sql.ref(column)} between ${lower} and ${upper}`;
+}
+
+class PfidTransformer extends OperationNodeTransformer {
+  private readonly columns: ReadonlySet<string>;
+
+  constructor(columns: ReadonlySet<string>) {
+    super();
+    this.columns = columns;
+  }
+
+  protected override transformBinaryOperation(node: BinaryOperationNode): BinaryOperationNode {
+    const transformed = super.transformBinaryOperation(node);
+    if (!this.isPfidColumn(transformed.leftOperand)) {
+      return transformed;
+    }
+    return { ...transformed, rightOperand: toBinary(transformed.rightOperand) };
+  }
+
+  protected override transformColumnUpdate(node: ColumnUpdateNode): ColumnUpdateNode {
+    const transformed = super.transformColumnUpdate(node);
+    if (!this.isPfidColumn(transformed.column)) {
+      return transformed;
+    }
+    return ColumnUpdateNode.create(transformed.column, toBinary(transformed.value));
+  }
+
+  protected override transformInsertQuery(node: InsertQueryNode): InsertQueryNode {
+    const transformed = super.transformInsertQuery(node);
+    const { columns, values } = transformed;
+    if (columns === undefined || values === undefined || !ValuesNode.is(values)) {
+      return transformed;
+    }
+
+    // Rows are in the order of the insert's columns
+    const isPfid = columns.map((column) => this.isPfidColumn(column));
+    if (!isPfid.includes(true)) {
+      return transformed;
+    }
+    const rows = values.values.map((row) =>
+      PrimitiveValueListNode.is(row)
+        ? PrimitiveValueListNode.create(row.values.map((value, i) => (isPfid[i] ? toBinaryValue(value) : value)))
+        : ValueListNode.create(row.values.map((value, i) => (isPfid[i] ? toBinary(value) : value))),
+    );
+    return { ...transformed, values: ValuesNode.create(rows) };
+  }
+
+  private isPfidColumn(node: OperationNode): boolean {
+    if (ReferenceNode.is(node) && ColumnNode.is(node.column)) {
+      return this.columns.has(node.column.column.name);
+    }
+    return ColumnNode.is(node) && this.columns.has(node.column.name);
+  }
+}
+
+// The PFID strings in a compared, inserted or updated value, as binaries
+function toBinary(node: OperationNode): OperationNode {
+  if (ValueNode.is(node)) {
+    // Immediate values are written into the SQL text, where a binary can't go
+    return node.immediate ? node : ValueNode.create(toBinaryValue(node.value));
+  }
+  if (PrimitiveValueListNode.is(node)) {
+    return PrimitiveValueListNode.create(node.values.map(toBinaryValue));
+  }
+  if (ValueListNode.is(node)) {
+    return ValueListNode.create(node.values.map(toBinary));
+  }
+  if (AndNode.is(node)) {
+    // The bounds of `between`
+    return AndNode.create(toBinary(node.left), toBinary(node.right));
+  }
+  return node;
+}
+
+function toBinaryValue(value: unknown): unknown {
+  return typeof value === 'string' ? decode(value) : value;
+}
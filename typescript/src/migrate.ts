@@ -0,0 +1,114 @@
+import { charValue, ENCODE_CHARS, readTimestamp, unsafeEncode, writeBinary } from './codec.js';
+import { PfidError } from './errors.js';
+import { isValidPartition } from './guards.js';
+import { decode, type Partition, type Pfid } from './pfid.js';
+
+// Converting ULIDs and UUIDv7s, which share the PFID's leading 48-bit millisecond
+// timestamp, to and from PFIDs. Every conversion is deterministic, so backfilling a
+// foreign key twice gives the same PFID.
+
+const UUID_V7_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+const MASK_62 = (1n << 62n) - 1n;
+
+/**
+ * Convert a ULID, in either case, to a PFID in a partition. The ULID's timestamp and
+ * 80 bits of randomness are kept as they are, so `toUlid` recovers it exactly.
+ * @throws {PfidError} If the ULID or partition is invalid
+ */
+export function fromUlid(ulid: string, partition: Partition): Pfid {
+  if (!isValidPartition(partition)) {
+    throw PfidError.make('invalid_partition', partition);
+  }
+  if (typeof ulid !== 'string' || ulid.length !== 26) {
+    throw PfidError.make('invalid_ulid', ulid);
+  }
+
+  let value = 0n;
+  for (let i = 0; i < 26; i++) {
+    const digit = charValue(ulid.charCodeAt(i));
+    // 26 characters hold 130 bits -- the first can only use 3 of its 5
+    if (digit < 0 || (i === 0 && digit > 7)) {
+      throw PfidError.make('invalid_ulid', ulid);
+    }
+    value = (value << 5n) | BigInt(digit);
+  }
+
+  return fromParts(partition, value >> 80n, value);
+}
+
+/**
+ * Convert a UUIDv7, in either case, to a PFID in a partition. The UUID's timestamp is
+ * kept, and its 74 random bits (`rand_a` then `rand_b`) fill the PFID's randomness,
+ * followed by 6 zero bits -- so `toUuidV7` recovers it exactly.
+ * @throws {PfidError} If the UUID is not a hyphenated version 7 UUID, or the partition is invalid
+ */
+export function fromUuidV7(uuid: string, partition: Partition): Pfid {
+  if (!isValidPartition(partition)) {
+    throw PfidError.make('invalid_partition', partition);
+  }
+  if (typeof uuid !== 'string' || !UUID_V7_PATTERN.test(uuid)) {
+    throw PfidError.make('invalid_uuid', uuid);
+  }
+
+  const value = BigInt(`0x${uuid.replace(/-/g, '')}`);
+  const randA = (value >> 64n) & 0xfffn;
+  const randB = value & MASK_62;
+
+  return fromParts(partition, value >> 80n, (randA << 68n) | (randB << 6n));
+}
+
+/**
+ * Project a PFID onto an uppercase ULID with the same timestamp and randomness. The
+ * partition is dropped, so this is lossy.
+ * @throws {PfidError} If the PFID is invalid
+ */
+export function toUlid(pfid: Pfid): string {
+  const binary = decode(pfid);
+  const value = (BigInt(readTimestamp(binary)) << 80n) | readRandomness(binary);
+
+  let ulid = '';
+  for (let shift = 125n; shift >= 0n; shift -= 5n) {
+    ulid += ENCODE_CHARS[Number((value >> shift) & 0x1fn)];
+  }
+  return ulid.toUpperCase();
+}
+
+/**
+ * Project a PFID onto a lowercase, hyphenated UUIDv7 with the same timestamp, and the
+ * first 74 bits of randomness as `rand_a` and `rand_b`. The partition and the last 6
+ * bits of randomness are dropped, so this is lossy.
+ * @throws {PfidError} If the PFID is invalid
+ */
+export function toUuidV7(pfid: Pfid): string {
+  const binary = decode(pfid);
+  const randomness = readRandomness(binary);
+  const value =
+    (BigInt(readTimestamp(binary)) << 80n) |
+    (0x7n << 76n) |
+    ((randomness >> 68n) << 64n) |
+    (0x2n << 62n) |
+    ((randomness >> 6n) & MASK_62);
+
+  const hex = value.toString(16).padStart(32, '0');
+  return `${hex.substring(0, 8)}-${hex.substring(8, 12)}-${hex.substring(12, 16)}-${hex.substring(16, 20)}-${hex.substring(20)}`;
+}
+
+// The low 80 bits of `randomness` become the PFID's randomness
+function fromParts(partition: Partition, timestamp: bigint, randomness: bigint): Pfid {
+  const bytes = new Uint8Array(10);
+  let rest = randomness;
+  for (let i = 9; i >= 0; i--) {
+    bytes[i] = Number(rest & 0xffn);
+    rest >>= 8n;
+  }
+  return unsafeEncode(writeBinary(partition, Number(timestamp), bytes));
+}
+
+function readRandomness(binary: Uint8Array): bigint {
+  let value = 0n;
+  for (let i = 10; i < 20; i++) {
+    value = (value << 8n) | BigInt(binary[i]);
+  }
+  return value;
+}
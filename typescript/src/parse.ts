@@ -0,0 +1,74 @@
+import { readPartition, readTimestamp, unsafeEncode, writeBinary } from './codec.js';
+import { PfidError } from './errors.js';
+import { assertCanonicalBinary, isValidPartition, isValidTimestamp } from './guards.js';
+import { decode, type BinaryPfid, type Partition, type Pfid, type Timestamp } from './pfid.js';
+
+/**
+ * The explicit parts of a PFID.
+ */
+export interface PfidParts {
+  timestamp: Timestamp;
+  partition: Partition;
+  randomness: Uint8Array; // 10 bytes (80 bits)
+}
+
+/**
+ * The parts of a parsed PFID, plus its timestamp as a `Date`.
+ */
+export interface ParsedPfid extends PfidParts {
+  date: Date;
+}
+
+/**
+ * Parse a PFID string or binary PFID into its parts.
+ * @throws {PfidError} If the PFID or binary is invalid, or the binary is not canonical
+ */
+export function parse(pfid: Pfid | BinaryPfid): ParsedPfid {
+  let binary: BinaryPfid;
+  if (typeof pfid === 'string') {
+    binary = decode(pfid);
+  } else {
+    assertCanonicalBinary(pfid);
+    binary = pfid;
+  }
+
+  const timestamp = readTimestamp(binary);
+  return {
+    timestamp,
+    date: new Date(timestamp),
+    partition: readPartition(binary),
+    // Copy -- `Buffer#slice` would alias the input
+    randomness: new Uint8Array(binary.subarray(10, 20)),
+  };
+}
+
+/**
+ * Build a PFID string from explicit parts.
+ * @throws {PfidError} If any of the parts is invalid
+ */
+export function compose(parts: PfidParts): Pfid {
+  return unsafeEncode(composeBinary(parts));
+}
+
+/**
+ * Build a binary PFID from explicit parts.
+ * @throws {PfidError} If any of the parts is invalid
+ */
+export function composeBinary(parts: PfidParts): BinaryPfid {
+  if (typeof parts !== 'object' || parts === null) {
+    throw PfidError.make('invalid_parts', parts);
+  }
+  const { timestamp, partition, randomness } = parts;
+
+  if (!isValidTimestamp(timestamp)) {
+    throw PfidError.make('invalid_timestamp', timestamp);
+  }
+  if (!isValidPartition(partition)) {
+    throw PfidError.make('invalid_partition', partition);
+  }
+  if (!(randomness instanceof Uint8Array) || randomness.length !== 10) {
+    throw PfidError.make('invalid_randomness', randomness);
+  }
+
+  return writeBinary(partition, timestamp, randomness);
+}
@@ -0,0 +1,35 @@
+import { PfidError } from './errors.js';
+import type { Partition } from './pfid.js';
+import { sha256 } from './sha256.js';
+
+export interface PartitionFromKeyOptions {
+  namespace?: string;
+}
+
+/**
+ * Map a key (e.g. a tenant UUID or slug) to a stable partition, so a tenant's IDs
+ * cluster together without a lookup table.
+ *
+ * The partition is the first 4 bytes of the SHA-256 digest, read big-endian, with
+ * the top 2 bits cleared. The digest is taken over the UTF-8 encoded key -- or, with
+ * a non-empty namespace, over the UTF-8 namespace, a 0x00 byte, then the UTF-8 key.
+ * Neither may contain a NUL character, so every namespace and key pair has its own
+ * digest input. Other PFID implementations reproduce this byte-for-byte; see
+ * `fixtures/partition_key_fixtures.csv`.
+ * @throws {PfidError} If the key or namespace is not a string, or contains a NUL character
+ */
+export function partitionFromKey(key: string, options: PartitionFromKeyOptions = {}): Partition {
+  const { namespace } = options;
+  if (typeof key !== 'string' || key.includes('\u0000')) {
+    throw PfidError.make('invalid_partition', key);
+  }
+  if (namespace !== undefined && (typeof namespace !== 'string' || namespace.includes('\u0000'))) {
+    throw PfidError.make('invalid_partition', namespace);
+  }
+
+  const encoder = new TextEncoder();
+  const data = namespace ? encoder.encode(`${namespace}\u0000${key}`) : encoder.encode(key);
+  const digest = sha256(data);
+
+  return ((digest[0] << 24) | (digest[1] << 16) | (digest[2] << 8) | digest[3]) & 0x3fffffff;
+}
@@ -0,0 +1,48 @@
+import { types, type CustomTypesConfig } from 'pg';
+import { decode, encode, type BinaryPfid, type Partition, type Pfid, type Timestamp } from './pfid.js';
+import { rangeForBinary } from './range.js';
+
+// node-postgres glue for PFIDs stored as 20-byte `bytea`: a type parser for result
+// rows, and the conversions for query parameters.
+
+const BYTEA = types.builtins.BYTEA;
+
+/**
+ * Read a `bytea` value, as Postgres sends it in text format (`\x...`), as a PFID string.
+ * @throws {PfidError} If the value is not a binary PFID
+ */
+export function parsePfid(value: string): Pfid {
+  return encode(types.getTypeParser(BYTEA, 'text')(value) as Uint8Array);
+}
+
+/**
+ * Turn a PFID string into a query parameter for a `bytea` column.
+ * @throws {PfidError} If the PFID is invalid
+ */
+export function serializePfid(pfid: Pfid): BinaryPfid {
+  return decode(pfid);
+}
+
+/**
+ * Type parsers that read every `bytea` value as a PFID string, and every other type as
+ * `pg` does by default. Only use it where every `bytea` is a PFID -- a pool of its
+ * own, or a single query: `client.query({ text, values, types: pfidTypes })`.
+ */
+export const pfidTypes: CustomTypesConfig = {
+  getTypeParser: (oid: number, format?: 'text' | 'binary') => {
+    if (oid !== BYTEA) {
+      return types.getTypeParser(oid, format);
+    }
+    return format === 'binary' ? (value: Uint8Array) => encode(value) : parsePfid;
+  },
+};
+
+/**
+ * The parameters for `WHERE id BETWEEN $1 AND $2`, matching every PFID created between
+ * two timestamps -- in a partition at the ends, if given (see `rangeFor`).
+ * @throws {PfidError} If a timestamp or the partition is invalid, or `start` is after `end`
+ */
+export function pfidBetween(start: Timestamp, end: Timestamp, partition?: Partition): [BinaryPfid, BinaryPfid] {
+  const { lower, upper } = rangeForBinary(start, end, partition);
+  return [lower, upper];
+}
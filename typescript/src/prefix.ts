@@ -0,0 +1,111 @@
+import { PfidError } from './errors.js';
+import { isValidPartition } from './guards.js';
+import { decode, encode, extractPartition, generate, type Partition, type Pfid } from './pfid.js';
+
+// Prefixed PFIDs carry a registered type prefix, Stripe-style: `ord_01an4z07byd9df0k79ka1307sr9x4mv3`.
+
+/**
+ * A registered prefix, an underscore, then a 32 character PFID.
+ */
+export type PrefixedPfid = string;
+
+export interface PrefixOptions {
+  // The inclusive [min, max] partitions IDs with this prefix may have
+  partitionRange?: readonly [Partition, Partition];
+}
+
+export interface ParsedPrefixedPfid {
+  prefix: string;
+  pfid: Pfid;
+}
+
+// 1-16 lowercase letters and digits, starting with a letter
+const PREFIX_PATTERN = /^[a-z][a-z0-9]{0,15}$/;
+
+const registry = new Map<string, PrefixOptions>();
+
+/**
+ * Register a prefix, so it can be generated and parsed. Registering a prefix again
+ * replaces its options.
+ * @throws {PfidError} If the prefix (`invalid_prefix`) or partition range (`invalid_partition`) is invalid
+ */
+export function registerPrefix(prefix: string, options: PrefixOptions = {}): void {
+  if (typeof prefix !== 'string' || !PREFIX_PATTERN.test(prefix)) {
+    throw PfidError.make('invalid_prefix', prefix);
+  }
+
+  const range = options.partitionRange;
+  if (
+    range !== undefined &&
+    (!Array.isArray(range) || !isValidPartition(range[0]) || !isValidPartition(range[1]) || range[0] > range[1])
+  ) {
+    throw PfidError.make('invalid_partition', range);
+  }
+
+  registry.set(prefix, { partitionRange: range && [range[0], range[1]] });
+}
+
+/**
+ * Generate a prefixed PFID with the current time.
+ * @throws {PfidError} If the prefix is not registered (`unknown_prefix`), or the
+ * partition is invalid or outside the prefix's range (`invalid_partition`)
+ */
+export function generatePrefixed(prefix: string, partition: Partition): PrefixedPfid {
+  checkPartition(prefix, lookup(prefix), partition);
+  return `${prefix}_${generate(partition)}`;
+}
+
+/**
+ * Split a prefixed PFID into its prefix and canonical PFID.
+ * @throws {PfidError} If the text is malformed (`invalid_pfid`), the prefix is not
+ * registered (`unknown_prefix`), or the partition is outside the prefix's range
+ * (`invalid_partition`)
+ */
+export function parsePrefixed(text: PrefixedPfid): ParsedPrefixedPfid {
+  const separator = typeof text === 'string' ? text.indexOf('_') : -1;
+  if (separator < 0) {
+    throw PfidError.make('invalid_pfid', text);
+  }
+
+  const prefix = text.substring(0, separator);
+  const options = lookup(prefix);
+  // Through `decode`, which validates the body and accepts either case
+  const pfid = encode(decode(text.substring(separator + 1)));
+  checkPartition(prefix, options, extractPartition(pfid));
+
+  return { prefix, pfid };
+}
+
+/**
+ * Check if a value is a valid prefixed PFID -- with the given prefix, if any.
+ */
+export function isPrefixedPfid(text: unknown, prefix?: string): text is PrefixedPfid {
+  try {
+    const parsed = parsePrefixed(text as PrefixedPfid);
+    return prefix === undefined || parsed.prefix === prefix;
+  } catch (error) {
+    if (error instanceof PfidError) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+function lookup(prefix: string): PrefixOptions {
+  const options = registry.get(prefix);
+  if (options === undefined) {
+    throw PfidError.make('unknown_prefix', prefix);
+  }
+  return options;
+}
+
+function checkPartition(prefix: string, options: PrefixOptions, partition: Partition): void {
+  if (!isValidPartition(partition)) {
+    throw PfidError.make('invalid_partition', partition);
+  }
+
+  const range = options.partitionRange;
+  if (range !== undefined && (partition < range[0] || partition > range[1])) {
+    throw PfidError.make('invalid_partition', { prefix, partition, partitionRange: range });
+  }
+}
@@ -0,0 +1,86 @@
+import { unsafeEncode, writeBinary } from './codec.js';
+import { PfidError } from './errors.js';
+import { MAX_PARTITION, isValidPartition, isValidTimestamp } from './guards.js';
+import type { BinaryPfid, Partition, Pfid, Timestamp } from './pfid.js';
+
+// PFIDs sort by timestamp, then partition, then randomness -- so the smallest PFID
+// for a timestamp has all-zero partition and randomness, and the largest all ones.
+
+const MIN_RANDOMNESS = new Uint8Array(10);
+const MAX_RANDOMNESS = new Uint8Array(10).fill(0xff);
+
+/**
+ * An inclusive range of PFIDs, suitable for `WHERE id BETWEEN lower AND upper`.
+ */
+export interface PfidRange<T = Pfid> {
+  lower: T;
+  upper: T;
+}
+
+/**
+ * The smallest PFID with the given timestamp (and partition, if given).
+ * @throws {PfidError} If the timestamp or partition is invalid
+ */
+export function lowerBound(timestamp: Timestamp, partition?: Partition): Pfid {
+  return unsafeEncode(lowerBoundBinary(timestamp, partition));
+}
+
+/**
+ * The largest PFID with the given timestamp (and partition, if given).
+ * @throws {PfidError} If the timestamp or partition is invalid
+ */
+export function upperBound(timestamp: Timestamp, partition?: Partition): Pfid {
+  return unsafeEncode(upperBoundBinary(timestamp, partition));
+}
+
+/**
+ * The smallest binary PFID with the given timestamp (and partition, if given).
+ * @throws {PfidError} If the timestamp or partition is invalid
+ */
+export function lowerBoundBinary(timestamp: Timestamp, partition?: Partition): BinaryPfid {
+  validate(timestamp, partition);
+  return writeBinary(partition ?? 0, timestamp, MIN_RANDOMNESS);
+}
+
+/**
+ * The largest binary PFID with the given timestamp (and partition, if given).
+ * @throws {PfidError} If the timestamp or partition is invalid
+ */
+export function upperBoundBinary(timestamp: Timestamp, partition?: Partition): BinaryPfid {
+  validate(timestamp, partition);
+  return writeBinary(partition ?? MAX_PARTITION, timestamp, MAX_RANDOMNESS);
+}
+
+/**
+ * The inclusive range of PFIDs created between two timestamps.
+ *
+ * With a partition, the bounds are narrowed to that partition at the start and end
+ * timestamps -- PFIDs of other partitions created in between still fall inside the range.
+ * @throws {PfidError} If a timestamp or the partition is invalid, or `start` is after `end`
+ */
+export function rangeFor(start: Timestamp, end: Timestamp, partition?: Partition): PfidRange {
+  const { lower, upper } = rangeForBinary(start, end, partition);
+  return { lower: unsafeEncode(lower), upper: unsafeEncode(upper) };
+}
+
+/**
+ * The inclusive range of binary PFIDs created between two timestamps.
+ * @throws {PfidError} If a timestamp or the partition is invalid, or `start` is after `end`
+ */
+export function rangeForBinary(start: Timestamp, end: Timestamp, partition?: Partition): PfidRange<BinaryPfid> {
+  const lower = lowerBoundBinary(start, partition);
+  const upper = upperBoundBinary(end, partition);
+  if (start > end) {
+    throw PfidError.make('invalid_timestamp', { start, end });
+  }
+  return { lower, upper };
+}
+
+function validate(timestamp: Timestamp, partition: Partition | undefined): void {
+  if (!isValidTimestamp(timestamp)) {
+    throw PfidError.make('invalid_timestamp', timestamp);
+  }
+  if (partition !== undefined && !isValidPartition(partition)) {
+    throw PfidError.make('invalid_partition', partition);
+  }
+}
@@ -0,0 +1,108 @@
+import { decodePartition, unsafeDecodeAt } from './codec.js';
+import { compare } from './compare.js';
+import { PfidError } from './errors.js';
+import { compose, composeBinary, parse, type ParsedPfid, type PfidParts } from './parse.js';
+import {
+  canonicalize,
+  decode,
+  decodeInto,
+  encode,
+  encodeMany,
+  extractPartition,
+  generate,
+  generateBinary,
+  generateBinaryWithTimestamp,
+  generateRelated,
+  generateWithTimestamp,
+  isPfid,
+  normalize,
+  type BinaryPfid,
+  type ParseOptions,
+  type Partition,
+  type Pfid,
+  type Timestamp,
+} from './pfid.js';
+import { firstIssue } from './validate.js';
+
+/**
+ * The result of a `safe` function: the value, or the `PfidError` it would have thrown.
+ */
+export type PfidResult<T> = { ok: true; value: T } | { ok: false; error: PfidError };
+
+/**
+ * The functions that throw `PfidError`, returning a `PfidResult` instead -- for
+ * validating untrusted input in a hot path, or where a branch reads better than a
+ * `try`. Any other exception (a bug) is still thrown.
+ *
+ * `decode` and `extractPartition` in strict mode never throw internally, and build
+ * the error of an invalid PFID only when it is first read, so rejecting input that is
+ * never inspected further costs little more than accepting it.
+ */
+export const safe = {
+  generate: (partition: Partition): PfidResult<Pfid> => attempt(() => generate(partition)),
+  generateWithTimestamp: (partition: Partition, timestamp: Timestamp): PfidResult<Pfid> =>
+    attempt(() => generateWithTimestamp(partition, timestamp)),
+  generateRelated: <Tag extends string = string>(existingPfid: Pfid<Tag>): PfidResult<Pfid<Tag>> =>
+    attempt(() => generateRelated(existingPfid)),
+  generateBinary: (partition: Partition): PfidResult<BinaryPfid> => attempt(() => generateBinary(partition)),
+  generateBinaryWithTimestamp: (partition: Partition, timestamp: Timestamp): PfidResult<BinaryPfid> =>
+    attempt(() => generateBinaryWithTimestamp(partition, timestamp)),
+  encode: (binary: BinaryPfid): PfidResult<Pfid> => attempt(() => encode(binary)),
+  encodeMany: (binaries: readonly BinaryPfid[] | Uint8Array): PfidResult<Pfid[]> => attempt(() => encodeMany(binaries)),
+  canonicalize: (binary: BinaryPfid): PfidResult<BinaryPfid> => attempt(() => canonicalize(binary)),
+  decode: (pfid: string, options?: ParseOptions): PfidResult<BinaryPfid> => {
+    if (options?.mode === 'lenient') {
+      return attempt(() => decode(pfid, options));
+    }
+    // As `decode`, which accepts uppercase in strict mode
+    const binary = new Uint8Array(20);
+    if (
+      typeof pfid === 'string' &&
+      pfid.length === 32 &&
+      pfid[0] >= '0' &&
+      pfid[0] <= '7' &&
+      unsafeDecodeAt(pfid, binary, 0)
+    ) {
+      return { ok: true, value: binary };
+    }
+    return failure(() => PfidError.invalidPfid(pfid, firstIssue(pfid, true)));
+  },
+  decodeInto: (pfids: readonly string[], target: Uint8Array, offset?: number): PfidResult<number> =>
+    attempt(() => decodeInto(pfids, target, offset)),
+  extractPartition: (pfid: string, options?: ParseOptions): PfidResult<Partition> => {
+    if (options?.mode === 'lenient') {
+      return attempt(() => extractPartition(pfid, options));
+    }
+    if (isPfid(pfid)) {
+      return { ok: true, value: decodePartition(pfid.substring(10, 16)) };
+    }
+    return failure(() => PfidError.invalidPfid(pfid, firstIssue(pfid)));
+  },
+  normalize: (input: string): PfidResult<Pfid> => attempt(() => normalize(input)),
+  parse: (pfid: Pfid | BinaryPfid): PfidResult<ParsedPfid> => attempt(() => parse(pfid)),
+  compose: (parts: PfidParts): PfidResult<Pfid> => attempt(() => compose(parts)),
+  composeBinary: (parts: PfidParts): PfidResult<BinaryPfid> => attempt(() => composeBinary(parts)),
+  compare: (a: Pfid | BinaryPfid, b: Pfid | BinaryPfid): PfidResult<-1 | 0 | 1> => attempt(() => compare(a, b)),
+};
+
+// A failed result whose error is built when first read
+function failure(makeError: () => PfidError): { ok: false; error: PfidError } {
+  let error: PfidError | undefined;
+  return {
+    ok: false,
+    get error() {
+      return (error ??= makeError());
+    },
+  };
+}
+
+function attempt<T>(fn: () => T): PfidResult<T> {
+  try {
+    return { ok: true, value: fn() };
+  } catch (error) {
+    if (error instanceof PfidError) {
+      return { ok: false, error };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,114 @@
+import { charValue, ENCODE_CHARS } from './codec.js';
+import { PfidError } from './errors.js';
+import { ff1Decrypt, ff1Encrypt, importAesKey } from './ff1.js';
+import { isPfid, type Pfid } from './pfid.js';
+import { firstIssue } from './validate.js';
+
+// A sealed PFID hides the timestamp and partition behind a key. The first character of
+// a token is the key ID. The other 39 are the PFID's 32 characters followed by 7 zeros,
+// encrypted together with FF1 over AES in radix 32. A PFID's first character is at most
+// 7, so 37 of the 195 encrypted bits are known. Unsealing with another key scrambles them
+// along with the rest, so a wrong key or an altered token is caught rather than unsealed
+// to an unrelated PFID. The PFID fills all 32 characters, which is why a token needs 40.
+
+/**
+ * A 40 character sealed PFID.
+ */
+export type SealedPfid = string;
+
+/**
+ * A key for `seal` and `unseal`.
+ */
+export interface SealingKey {
+  // 0 to 31 -- stored as the token's first character, so `unseal` can pick the key that sealed it
+  id: number;
+  // An AES-128, AES-192 or AES-256 key: 16, 24 or 32 random bytes
+  secret: Uint8Array;
+}
+
+const TWEAK = new Uint8Array(0);
+const PADDING = 7;
+const TOKEN_LENGTH = 1 + 32 + PADDING;
+
+/**
+ * Seal a PFID into an opaque token in the same alphabet, which reveals neither its
+ * timestamp nor its partition.
+ *
+ * A token is 40 characters rather than the PFID's 32: one for the key ID, and room for
+ * the zeros `unseal` checks to tell a wrong key from the right one. Sealing is
+ * deterministic: the same PFID and key always give the same token.
+ * @throws {PfidError} If the PFID (`invalid_pfid`) or key (`invalid_key`) is invalid
+ */
+export async function seal(pfid: Pfid, key: SealingKey): Promise<SealedPfid> {
+  if (!isPfid(pfid)) {
+    throw PfidError.invalidPfid(pfid, firstIssue(pfid));
+  }
+  checkKey(key);
+
+  const digits = [...toDigits(pfid), ...new Array<number>(PADDING).fill(0)];
+  return ENCODE_CHARS[key.id] + fromDigits(await ff1Encrypt(await importAesKey(key.secret), TWEAK, 32, digits));
+}
+
+/**
+ * Recover the PFID from a sealed token, trying each of the keys with the token's key
+ * ID until one unseals it. Keep retired keys in the list until their tokens are no
+ * longer in use; an ID can then be reused, even while both keys are in the list.
+ *
+ * @throws {PfidError} If the token (`invalid_token`) or a key (`invalid_key`) is invalid,
+ * or no key unseals the token (`wrong_key`): none has its key ID, none of those that do
+ * sealed it, or the token was altered
+ */
+export async function unseal(token: SealedPfid, keys: SealingKey | readonly SealingKey[]): Promise<Pfid> {
+  const keyring = Array.isArray(keys) ? keys : [keys as SealingKey];
+  keyring.forEach(checkKey);
+
+  const id = sealedKeyId(token);
+  const sealed = toDigits(token.substring(1));
+  for (const key of keyring) {
+    if (key.id !== id) {
+      continue;
+    }
+    const digits = await ff1Decrypt(await importAesKey(key.secret), TWEAK, 32, sealed);
+    // A PFID's first character, then the zeros
+    if (digits[0] <= 7 && digits.slice(32).every((digit) => digit === 0)) {
+      return fromDigits(digits.slice(0, 32));
+    }
+  }
+  throw PfidError.make('wrong_key', token);
+}
+
+/**
+ * The ID of the key that sealed a token -- e.g. to find tokens still sealed with a
+ * retired key.
+ * @throws {PfidError} If the token is invalid (`invalid_token`)
+ */
+export function sealedKeyId(token: SealedPfid): number {
+  if (typeof token !== 'string' || token.length !== TOKEN_LENGTH) {
+    throw PfidError.make('invalid_token', token);
+  }
+  for (let i = 0; i < TOKEN_LENGTH; i++) {
+    if (charValue(token.charCodeAt(i)) < 0) {
+      throw PfidError.make('invalid_token', token);
+    }
+  }
+  return charValue(token.charCodeAt(0));
+}
+
+function checkKey(key: SealingKey): void {
+  const id = key?.id;
+  if (!Number.isInteger(id) || id < 0 || id > 31) {
+    throw PfidError.make('invalid_key', id);
+  }
+  const secret = key.secret;
+  if (!(secret instanceof Uint8Array) || ![16, 24, 32].includes(secret.length)) {
+    throw PfidError.make('invalid_key', { id, bytes: secret?.length });
+  }
+}
+
+function toDigits(text: string): number[] {
+  return Array.from(text, (char) => charValue(char.charCodeAt(0)));
+}
+
+function fromDigits(digits: readonly number[]): string {
+  return digits.map((digit) => ENCODE_CHARS[digit]).join('');
+}
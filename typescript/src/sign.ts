@@ -0,0 +1,105 @@
+import { charValue, unsafeDecodeTimestamp, unsafeEncode80, unsafeEncodeTimestamp } from './codec.js';
+import { PfidError } from './errors.js';
+import { isValidTimestamp } from './guards.js';
+import { isPfid, type Pfid, type Timestamp } from './pfid.js';
+import { firstIssue } from './validate.js';
+
+// A signed PFID is the PFID, then optionally its expiry as the 10 characters a
+// timestamp takes in a PFID, then a tag: the first 80 bits of the HMAC-SHA256 of
+// everything before it, as 16 characters. The two forms differ in length.
+
+/**
+ * A 48 character signed PFID, or 58 characters with an expiry.
+ */
+export type SignedPfid = string;
+
+/**
+ * An HMAC secret: bytes, or a string used as its UTF-8 bytes.
+ */
+export type SigningSecret = Uint8Array | string;
+
+export interface SignOptions {
+  expiresAt?: Date | Timestamp;
+}
+
+export interface VerifyOptions {
+  // The time to check the expiry against, instead of now
+  now?: Date | Timestamp;
+}
+
+const TAG_LENGTH = 16;
+const SIGNED_LENGTH = 32 + TAG_LENGTH;
+const EXPIRING_LENGTH = 32 + 10 + TAG_LENGTH;
+
+/**
+ * Sign a PFID, so a server holding the secret can check it issued the token without
+ * a lookup.
+ * @throws {PfidError} If the PFID (`invalid_pfid`), secret (`invalid_key`) or expiry
+ * (`invalid_timestamp`) is invalid
+ */
+export async function sign(pfid: Pfid, secret: SigningSecret, options: SignOptions = {}): Promise<SignedPfid> {
+  if (!isPfid(pfid)) {
+    throw PfidError.invalidPfid(pfid, firstIssue(pfid));
+  }
+
+  let body = pfid;
+  if (options.expiresAt !== undefined) {
+    const expiresAt = toTimestamp(options.expiresAt);
+    if (!isValidTimestamp(expiresAt)) {
+      throw PfidError.make('invalid_timestamp', options.expiresAt);
+    }
+    body += unsafeEncodeTimestamp(expiresAt);
+  }
+
+  return body + (await tag(body, secret));
+}
+
+/**
+ * Verify a signed PFID and return the PFID. The tag is compared in constant time,
+ * and the expiry is only checked once the tag matches.
+ * @throws {PfidError} If the token is malformed (`invalid_token`), the tag doesn't
+ * match (`invalid_signature`), the token has expired (`token_expired`), or the secret
+ * is invalid (`invalid_key`)
+ */
+export async function verify(token: SignedPfid, secret: SigningSecret, options: VerifyOptions = {}): Promise<Pfid> {
+  if (typeof token !== 'string' || (token.length !== SIGNED_LENGTH && token.length !== EXPIRING_LENGTH)) {
+    throw PfidError.make('invalid_token', token);
+  }
+
+  const body = token.substring(0, token.length - TAG_LENGTH).toLowerCase();
+  const pfid = body.substring(0, 32);
+  const expiresAt = body.length > 32 ? unsafeDecodeTimestamp(body, 32) : undefined;
+  if (!isPfid(pfid) || (expiresAt !== undefined && !isValidTimestamp(expiresAt))) {
+    throw PfidError.make('invalid_token', token);
+  }
+
+  const expected = await tag(body, secret);
+  let difference = 0;
+  for (let i = 0; i < TAG_LENGTH; i++) {
+    // Any character that isn't Crockford Base32 becomes -1, which never matches
+    difference |= charValue(token.charCodeAt(body.length + i)) ^ charValue(expected.charCodeAt(i));
+  }
+  if (difference !== 0) {
+    throw PfidError.make('invalid_signature', token);
+  }
+
+  if (expiresAt !== undefined && toTimestamp(options.now ?? Date.now()) >= expiresAt) {
+    throw PfidError.make('token_expired', token);
+  }
+  return pfid;
+}
+
+async function tag(body: string, secret: SigningSecret): Promise<string> {
+  const bytes = typeof secret === 'string' ? new TextEncoder().encode(secret) : secret;
+  if (!(bytes instanceof Uint8Array) || bytes.length === 0) {
+    throw PfidError.make('invalid_key', typeof secret);
+  }
+
+  const key = await crypto.subtle.importKey('raw', bytes, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const mac = new Uint8Array(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(body)));
+  return unsafeEncode80(mac, 0);
+}
+
+function toTimestamp(time: Date | Timestamp): Timestamp {
+  return time instanceof Date ? time.getTime() : time;
+}
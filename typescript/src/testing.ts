@@ -0,0 +1,168 @@
+import * as fc from 'fast-check';
+import { readPartition, readTimestamp, unsafeDecode, unsafeEncode, writeBinary } from './codec.js';
+import { isCanonicalBinary, isValidBinary, MAX_PARTITION, MAX_TIMESTAMP } from './guards.js';
+import { isPfid, type BinaryPfid, type Partition, type Pfid, type Timestamp } from './pfid.js';
+import { firstIssue } from './validate.js';
+
+// Helpers for testing code that uses PFIDs: fast-check arbitraries, Vitest/Jest
+// matchers and a snapshot serializer.
+
+export interface PfidArbitraryOptions {
+  // A fixed partition, instead of any partition
+  partition?: Partition;
+  minTimestamp?: Timestamp;
+  maxTimestamp?: Timestamp;
+}
+
+/**
+ * Any valid partition, 0 to 1,073,741,823.
+ */
+export function arbitraryPartition(): fc.Arbitrary<Partition> {
+  return fc.integer({ min: 0, max: MAX_PARTITION });
+}
+
+/**
+ * Any valid timestamp, 0 to 281,474,976,710,655 -- or within the given inclusive bounds.
+ */
+export function arbitraryTimestamp(min: Timestamp = 0, max: Timestamp = MAX_TIMESTAMP): fc.Arbitrary<Timestamp> {
+  // `fc.integer` stops at 32 bits
+  return fc.bigInt({ min: BigInt(min), max: BigInt(max) }).map((timestamp) => Number(timestamp));
+}
+
+/**
+ * Any valid, canonical binary PFID.
+ */
+export function arbitraryBinaryPfid(options: PfidArbitraryOptions = {}): fc.Arbitrary<BinaryPfid> {
+  const partition = options.partition === undefined ? arbitraryPartition() : fc.constant(options.partition);
+  const timestamp = arbitraryTimestamp(options.minTimestamp, options.maxTimestamp);
+  const randomness = fc.uint8Array({ minLength: 10, maxLength: 10 });
+
+  return fc.tuple(partition, timestamp, randomness).map(([p, t, r]) => writeBinary(p, t, r));
+}
+
+/**
+ * Any valid PFID string.
+ */
+export function arbitraryPfid(options: PfidArbitraryOptions = {}): fc.Arbitrary<Pfid> {
+  return arbitraryBinaryPfid(options).map((binary) => unsafeEncode(binary));
+}
+
+/**
+ * Strings one mistake away from a valid PFID: truncated or extended, with the first
+ * character above `7`, an invalid character, or an uppercase letter. Every one is
+ * rejected in strict mode -- though lenient mode accepts some.
+ */
+export function arbitraryInvalidPfid(): fc.Arbitrary<string> {
+  const position = fc.nat({ max: 31 });
+  const replace = (pfid: string, at: number, char: string) => pfid.substring(0, at) + char + pfid.substring(at + 1);
+
+  return fc.oneof(
+    fc.tuple(arbitraryPfid(), position).map(([pfid, length]) => pfid.substring(0, length)),
+    fc.tuple(arbitraryPfid(), fc.constantFrom(...'0123456789abcdefghjkmnpqrstvwxyz')).map(([pfid, char]) => pfid + char),
+    fc.tuple(arbitraryPfid(), fc.constantFrom(...'89abcdefghjkmnpqrstvwxyz')).map(([pfid, char]) => replace(pfid, 0, char)),
+    fc.tuple(arbitraryPfid(), position, fc.constantFrom(...'ilouILOU-_ !')).map(([pfid, at, char]) => replace(pfid, at, char)),
+    fc.tuple(arbitraryPfid(), position, fc.constantFrom(...'ABCDEFGHJKMNPQRSTVWXYZ')).map(([pfid, at, char]) =>
+      replace(pfid, at, char),
+    ),
+  );
+}
+
+/**
+ * The result of a matcher, as Vitest and Jest expect it.
+ */
+export interface PfidMatcherResult {
+  pass: boolean;
+  message: () => string;
+}
+
+/**
+ * The matchers' types, for declaring them on Vitest's or Jest's `expect` -- e.g.
+ * `declare module 'vitest' { interface Matchers<T = any> extends PfidMatchers<T> {} }`.
+ */
+export interface PfidMatchers<R = unknown> {
+  // A valid PFID string, in strict mode
+  toBeValidPfid(): R;
+  // A valid PFID string or binary in the partition
+  toHavePartition(partition: Partition): R;
+  // A valid PFID string or binary with a timestamp in the inclusive range
+  toBeCreatedBetween(start: Date | Timestamp, end: Date | Timestamp): R;
+}
+
+/**
+ * PFID matchers for Vitest and Jest: `expect.extend(pfidMatchers)`.
+ */
+export const pfidMatchers = {
+  toBeValidPfid(received: unknown): PfidMatcherResult {
+    if (isPfid(received)) {
+      return { pass: true, message: () => `expected ${show(received)} not to be a valid PFID` };
+    }
+    const issue = typeof received === 'string' ? firstIssue(received) : undefined;
+    const reason = issue === undefined ? 'it is not a string' : issue.message;
+    return { pass: false, message: () => `expected ${show(received)} to be a valid PFID, but ${reason}` };
+  },
+
+  toHavePartition(received: unknown, partition: Partition): PfidMatcherResult {
+    const parts = partsOf(received);
+    if (parts === undefined) {
+      return { pass: false, message: () => `expected ${show(received)} to be a valid PFID in partition ${partition}` };
+    }
+    return parts.partition === partition
+      ? { pass: true, message: () => `expected ${show(received)} not to be in partition ${partition}` }
+      : {
+          pass: false,
+          message: () => `expected ${show(received)} to be in partition ${partition}, but it is in ${parts.partition}`,
+        };
+  },
+
+  toBeCreatedBetween(received: unknown, start: Date | Timestamp, end: Date | Timestamp): PfidMatcherResult {
+    const from = typeof start === 'number' ? start : start.getTime();
+    const to = typeof end === 'number' ? end : end.getTime();
+    const range = `${new Date(from).toISOString()} and ${new Date(to).toISOString()}`;
+
+    const parts = partsOf(received);
+    if (parts === undefined) {
+      return { pass: false, message: () => `expected ${show(received)} to be a valid PFID created between ${range}` };
+    }
+    const created = new Date(parts.timestamp).toISOString();
+    return parts.timestamp >= from && parts.timestamp <= to
+      ? { pass: true, message: () => `expected ${show(received)} not to be created between ${range}` }
+      : {
+          pass: false,
+          message: () => `expected ${show(received)} to be created between ${range}, but it was created at ${created}`,
+        };
+  },
+};
+
+/**
+ * A Vitest/Jest snapshot serializer that masks the randomness of PFID strings, so
+ * snapshots only change when the timestamp or partition do:
+ * `expect.addSnapshotSerializer(pfidSnapshotSerializer)`.
+ */
+export const pfidSnapshotSerializer = {
+  test(value: unknown): boolean {
+    return isPfid(value);
+  },
+  serialize(value: Pfid): string {
+    return `"${value.substring(0, 16)}${'*'.repeat(16)}"`;
+  },
+};
+
+// The timestamp and partition of a valid PFID string or canonical binary
+function partsOf(value: unknown): { timestamp: Timestamp; partition: Partition } | undefined {
+  let binary: BinaryPfid;
+  if (isPfid(value)) {
+    binary = unsafeDecode(value);
+  } else if (isValidBinary(value) && isCanonicalBinary(value)) {
+    binary = value;
+  } else {
+    return undefined;
+  }
+  return { timestamp: readTimestamp(binary), partition: readPartition(binary) };
+}
+
+function show(value: unknown): string {
+  if (value instanceof Uint8Array) {
+    return `<${value.length} bytes: ${Array.from(value, (byte) => byte.toString(16).padStart(2, '0')).join('')}>`;
+  }
+  return JSON.stringify(value) ?? String(value);
+}
@@ -0,0 +1,52 @@
+import { PfidError } from './errors.js';
+import { generate, generateRelated, isPfid, type Partition, type Pfid } from './pfid.js';
+import { firstIssue } from './validate.js';
+
+/**
+ * PFID functions for one entity type, returned by `definePfidType`.
+ */
+export interface PfidType<Tag extends string> {
+  /**
+   * Generate a PFID of this type with the current time.
+   */
+  generate(partition: Partition): Pfid<Tag>;
+
+  /**
+   * Check if a value is a valid PFID, narrowing it to this type.
+   */
+  is(value: unknown): value is Pfid<Tag>;
+
+  /**
+   * Validate a PFID (in either case, as `decode` accepts) and return it as this type.
+   * @throws {PfidError} If the PFID is invalid
+   */
+  parse(value: unknown): Pfid<Tag>;
+
+  /**
+   * Generate a PFID of this type in the same partition as a PFID of any type -- e.g.
+   * an order alongside the user who placed it.
+   * @throws {PfidError} If the PFID is invalid
+   */
+  related(pfid: Pfid): Pfid<Tag>;
+}
+
+/**
+ * Define a branded PFID type for an entity, e.g. `const OrderId = definePfidType<'order'>()`.
+ *
+ * The tag only exists in the type system: at runtime these are the plain PFID
+ * functions, and a PFID of one type is indistinguishable from another.
+ */
+export function definePfidType<Tag extends string>(): PfidType<Tag> {
+  return {
+    generate: (partition) => generate(partition) as Pfid<Tag>,
+    is: (value): value is Pfid<Tag> => isPfid(value),
+    parse: (value) => {
+      const pfid = typeof value === 'string' ? value.toLowerCase() : value;
+      if (!isPfid(pfid)) {
+        throw PfidError.invalidPfid(value, firstIssue(value, true));
+      }
+      return pfid as Pfid<Tag>;
+    },
+    related: (pfid) => generateRelated(pfid) as Pfid<Tag>,
+  };
+}
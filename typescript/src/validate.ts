@@ -0,0 +1,89 @@
+import { charValue } from './codec.js';
+import type { PfidIssue } from './errors.js';
+import { isCanonicalBinary } from './guards.js';
+
+export type ValidationResult = { ok: true } | { ok: false; issues: PfidIssue[] };
+
+/**
+ * Validate a PFID string or binary PFID, listing every reason it is invalid.
+ *
+ * Strings must be in the canonical form accepted by `isPfid`. Binaries must be
+ * 20 bytes, with the two padding bits between the timestamp and partition clear.
+ */
+export function validate(input: unknown): ValidationResult {
+  const issues = [...listIssues(input)];
+  return issues.length === 0 ? { ok: true } : { ok: false, issues };
+}
+
+/**
+ * The first reason the input is invalid, or `undefined` if it is valid.
+ * With `ignoreCase`, uppercase characters are not an issue -- as for `decode`.
+ */
+export function firstIssue(input: unknown, ignoreCase = false): PfidIssue | undefined {
+  for (const issue of listIssues(input)) {
+    if (!ignoreCase || issue.reason !== 'non_canonical_case') {
+      return issue;
+    }
+  }
+  return undefined;
+}
+
+function listIssues(input: unknown): Iterable<PfidIssue> {
+  if (typeof input === 'string') {
+    return stringIssues(input);
+  }
+  if (input instanceof Uint8Array) {
+    return binaryIssues(input);
+  }
+  return [
+    {
+      reason: 'invalid_type',
+      message: `expected a string or binary PFID, got ${input === null ? 'null' : typeof input}`,
+    },
+  ];
+}
+
+// Generated one at a time, so `firstIssue` stops at the first
+function* stringIssues(input: string): Generator<PfidIssue> {
+  if (input.length !== 32) {
+    yield { reason: 'wrong_length', message: `expected 32 characters, got ${input.length}` };
+  }
+
+  for (let position = 0; position < input.length; position++) {
+    const char = input[position];
+    const value = charValue(input.charCodeAt(position));
+
+    if (value < 0) {
+      yield {
+        reason: 'invalid_character',
+        position,
+        message: `invalid character ${JSON.stringify(char)} at position ${position}`,
+      };
+      continue;
+    }
+    if (position === 0 && value > 7) {
+      yield {
+        reason: 'timestamp_overflow',
+        position,
+        message: `first character must be 0-7, got ${JSON.stringify(char)}`,
+      };
+    }
+    if (char !== char.toLowerCase()) {
+      yield {
+        reason: 'non_canonical_case',
+        position,
+        message: `uppercase character ${JSON.stringify(char)} at position ${position}`,
+      };
+    }
+  }
+}
+
+function binaryIssues(input: Uint8Array): PfidIssue[] {
+  if (input.length !== 20) {
+    return [{ reason: 'wrong_length', message: `expected 20 bytes, got ${input.length}` }];
+  }
+  if (!isCanonicalBinary(input)) {
+    return [{ reason: 'non_zero_padding', position: 48, message: 'padding bits 48-49 must be zero' }];
+  }
+  return [];
+}
@@ -0,0 +1,108 @@
+import { decodePartition, readTimestamp, unsafeDecode } from './codec.js';
+import { compare } from './compare.js';
+import { PfidError } from './errors.js';
+import { encode, isPfid, type BinaryPfid, type Partition, type Pfid, type Timestamp } from './pfid.js';
+import { firstIssue } from './validate.js';
+
+/**
+ * An immutable PFID, validated once when it is created.
+ *
+ * Holds the canonical string, and decodes the binary form the first time it is
+ * needed. Every method goes through the functional API, which stays the primary
+ * interface -- use this where a PFID is passed around and inspected repeatedly.
+ */
+export class PfidValue {
+  private readonly pfid: Pfid;
+  private binary: BinaryPfid | undefined;
+
+  private constructor(pfid: Pfid, binary?: BinaryPfid) {
+    this.pfid = pfid;
+    this.binary = binary;
+  }
+
+  /**
+   * Wrap a PFID string (in either case, as `decode` accepts) or binary PFID.
+   * @throws {PfidError} If the PFID or binary is invalid
+   */
+  static from(value: Pfid | BinaryPfid | PfidValue): PfidValue {
+    if (value instanceof PfidValue) {
+      return value;
+    }
+    if (value instanceof Uint8Array) {
+      // Copy -- the caller may go on to modify their buffer
+      return new PfidValue(encode(value), new Uint8Array(value));
+    }
+
+    const pfid = typeof value === 'string' ? value.toLowerCase() : value;
+    if (!isPfid(pfid)) {
+      throw PfidError.invalidPfid(value, firstIssue(value, true));
+    }
+    return new PfidValue(pfid);
+  }
+
+  get partition(): Partition {
+    return decodePartition(this.pfid.substring(10, 16));
+  }
+
+  get timestamp(): Timestamp {
+    return readTimestamp(this.bytes());
+  }
+
+  /**
+   * The timestamp as a new `Date`.
+   */
+  get date(): Date {
+    return new Date(this.timestamp);
+  }
+
+  toString(): Pfid {
+    return this.pfid;
+  }
+
+  /**
+   * A copy of the binary form.
+   */
+  toBinary(): BinaryPfid {
+    return new Uint8Array(this.bytes());
+  }
+
+  toJSON(): Pfid {
+    return this.pfid;
+  }
+
+  /**
+   * Check if this is the same ID as another PFID, in any form.
+   * @throws {PfidError} If the other PFID is invalid
+   */
+  equals(other: PfidValue | Pfid | BinaryPfid): boolean {
+    return this.compareTo(other) === 0;
+  }
+
+  /**
+   * Compare with another PFID, in any form, as `compare` does.
+   * @throws {PfidError} If the other PFID is invalid
+   */
+  compareTo(other: PfidValue | Pfid | BinaryPfid): -1 | 0 | 1 {
+    return compare(this.pfid, other instanceof PfidValue ? other.pfid : other);
+  }
+
+  /**
+   * Always the string, even for a numeric hint -- so `<` and `>` between two values
+   * compare them in sort order.
+   */
+  [Symbol.toPrimitive](): Pfid {
+    return this.pfid;
+  }
+
+  // Node's `util.inspect` (and so `console.log`) hook, without importing `util`
+  [Symbol.for('nodejs.util.inspect.custom')](): string {
+    return `PfidValue(${this.pfid})`;
+  }
+
+  private bytes(): BinaryPfid {
+    if (this.binary === undefined) {
+      this.binary = unsafeDecode(this.pfid);
+    }
+    return this.binary;
+  }
+}
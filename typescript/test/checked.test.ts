@@ -0,0 +1,114 @@
+import { describe, test, expect } from 'vitest';
+import {
+  toChecked,
+  fromChecked,
+  isCheckedPfid,
+  decode,
+  encode,
+  extractPartition,
+  generate,
+  generateBinary,
+  isPfid,
+  normalize,
+} from '../src';
+
+const example = '01an4z07byd9df0k79ka1307sr9x4mv3';
+
+describe('toChecked', () => {
+  test('appends the mod-37 check symbol', () => {
+    expect(toChecked(example)).toBe(`${example}9`);
+    expect(toChecked('00000000000000000000000000000000')).toBe('000000000000000000000000000000000');
+    expect(toChecked('0000000000000000000000000000000a')).toBe('0000000000000000000000000000000aa');
+    expect(toChecked('7zzzzzzzzzzzzzzzzzzzzzzzzzzzzzzz')).toBe('7zzzzzzzzzzzzzzzzzzzzzzzzzzzzzzzx');
+  });
+
+  test('uses the extra check symbols for values 32-36', () => {
+    expect(toChecked('00000000000000000000000000000010')).toBe('00000000000000000000000000000010*');
+    expect(toChecked('00000000000000000000000000000014')).toBe('00000000000000000000000000000014u');
+  });
+
+  test('throws error for invalid PFID', () => {
+    expect(() => toChecked('invalid')).toThrow(expect.objectContaining({ code: 'invalid_pfid' }));
+  });
+});
+
+describe('fromChecked', () => {
+  test('strips a matching check symbol', () => {
+    const pfid = generate(123_456_789);
+
+    expect(fromChecked(toChecked(pfid))).toBe(pfid);
+  });
+
+  test('throws invalid_checksum on a single-character typo', () => {
+    const checked = toChecked(example);
+    const typo = checked.substring(0, 10) + 'e' + checked.substring(11);
+
+    expect(isPfid(typo.substring(0, 32))).toBe(true);
+    expect(() => fromChecked(typo)).toThrow(expect.objectContaining({ code: 'invalid_checksum' }));
+    expect(() => fromChecked(typo)).toThrow(/invalid check symbol/);
+  });
+
+  test('throws invalid_pfid for malformed input', () => {
+    expect(() => fromChecked(example)).toThrow(expect.objectContaining({ code: 'invalid_pfid' }));
+    expect(() => fromChecked('9' + example)).toThrow(expect.objectContaining({ code: 'invalid_pfid' }));
+    expect(() => fromChecked(123 as any)).toThrow(expect.objectContaining({ code: 'invalid_pfid' }));
+  });
+});
+
+describe('isCheckedPfid', () => {
+  test('returns true for checked PFIDs', () => {
+    expect(isCheckedPfid(toChecked(example))).toBe(true);
+  });
+
+  test('returns false for plain, mistyped or non-string values', () => {
+    expect(isCheckedPfid(example)).toBe(false);
+    expect(isCheckedPfid(`${example}0`)).toBe(false);
+    expect(isCheckedPfid(null)).toBe(false);
+  });
+});
+
+describe('checked PFIDs with encode/decode', () => {
+  test('round-trip through the binary form', () => {
+    const binary = generateBinary(42);
+
+    expect(decode(fromChecked(toChecked(encode(binary))))).toEqual(binary);
+  });
+
+  test('are accepted in lenient mode', () => {
+    const typed = toChecked(example).toUpperCase().replace(/(.{8})/g, '$1-');
+
+    expect(isPfid(typed, { mode: 'lenient' })).toBe(true);
+    expect(decode(typed, { mode: 'lenient' })).toEqual(decode(example));
+    expect(extractPartition(typed, { mode: 'lenient' })).toBe(extractPartition(example));
+    expect(normalize(typed)).toBe(example);
+  });
+
+  test('fail lenient mode with invalid_checksum when mistyped', () => {
+    const typo = `${example.substring(0, 31)}4${toChecked(example)[32]}`;
+
+    expect(isPfid(typo, { mode: 'lenient' })).toBe(false);
+    expect(() => normalize(typo)).toThrow(expect.objectContaining({ code: 'invalid_checksum' }));
+    expect(() => decode(typo, { mode: 'lenient' })).toThrow(expect.objectContaining({ code: 'invalid_checksum' }));
+    expect(() => extractPartition(typo, { mode: 'lenient' })).toThrow(
+      expect.objectContaining({ code: 'invalid_checksum' }),
+    );
+  });
+
+  test('report a mismatched check symbol at its position in the input', () => {
+    const checked = toChecked(example);
+    const typo = `${checked.substring(0, 16)}-${checked.substring(16, 31)}4-${checked[32]}`;
+
+    expect(() => normalize(typo)).toThrow(
+      expect.objectContaining({ code: 'invalid_checksum', reason: 'invalid_checksum', position: 34 }),
+    );
+  });
+
+  test('are rejected in strict mode, until fromChecked strips the check symbol', () => {
+    const checked = toChecked(example);
+
+    expect(isPfid(checked)).toBe(false);
+    expect(() => decode(checked)).toThrow(expect.objectContaining({ code: 'invalid_pfid', reason: 'wrong_length' }));
+    expect(() => extractPartition(checked)).toThrow(expect.objectContaining({ code: 'invalid_pfid' }));
+    expect(decode(fromChecked(checked))).toEqual(decode(example));
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, test, expect } from 'vitest';
+import { run } from '../src/cli';
+import { extractPartition, generateExample, isPfid, parse } from '../src';
+
+async function cli(args: string[], stdin = '') {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const code = await run(args, {
+    stdout: (text) => stdout.push(text),
+    stderr: (text) => stderr.push(text),
+    stdin: async () => stdin,
+  });
+  return { code, stdout: stdout.join('\n'), stderr: stderr.join('\n') };
+}
+
+const example = '01an4z07byd9df0k79ka1307sr9x4mv3';
+
+describe('pfid generate', () => {
+  test('generates a PFID with a partition', async () => {
+    const { code, stdout } = await cli(['generate', '123456789']);
+
+    expect(code).toBe(0);
+    expect(isPfid(stdout)).toBe(true);
+    expect(extractPartition(stdout)).toBe(123_456_789);
+  });
+
+  test('generates several PFIDs as JSON', async () => {
+    const { code, stdout } = await cli(['generate', '42', '--count', '3', '--json']);
+    const pfids = JSON.parse(stdout);
+
+    expect(code).toBe(0);
+    expect(pfids).toHaveLength(3);
+    expect(pfids.every((pfid: string) => extractPartition(pfid) === 42)).toBe(true);
+  });
+
+  test('generates with a timestamp', async () => {
+    const { stdout } = await cli(['generate', '42', '--timestamp', '1234567890000']);
+
+    expect(parse(stdout).timestamp).toBe(1_234_567_890_000);
+  });
+
+  test('generates root and related PFIDs', async () => {
+    const root = await cli(['generate', '--root']);
+    const related = await cli(['generate', '--related', root.stdout]);
+
+    expect(isPfid(root.stdout)).toBe(true);
+    expect(extractPartition(related.stdout)).toBe(extractPartition(root.stdout));
+  });
+
+  test('needs exactly one partition source', async () => {
+    expect((await cli(['generate'])).code).toBe(2);
+    expect((await cli(['generate', '1', '--root'])).code).toBe(2);
+  });
+
+  test('rejects an invalid partition', async () => {
+    const { code, stderr } = await cli(['generate', '1073741824']);
+
+    expect(code).toBe(1);
+    expect(stderr).toMatch(/invalid partition/);
+  });
+});
+
+describe('pfid inspect', () => {
+  test('prints the fields of a PFID', async () => {
+    const pfid = generateExample();
+    const { code, stdout } = await cli(['inspect', pfid]);
+
+    expect(code).toBe(0);
+    expect(stdout).toContain('2009-02-13T23:31:30.000Z');
+    expect(stdout).toContain('123456789');
+  });
+
+  test('prints JSON', async () => {
+    const { stdout } = await cli(['inspect', example, '--json']);
+
+    expect(JSON.parse(stdout)).toEqual({
+      pfid: example,
+      timestamp: 1_465_824_320_894,
+      time: '2016-06-13T13:25:20.894Z',
+      partition: 446_086_163,
+      randomness: '3a66a08c07ce13d25363',
+    });
+  });
+
+  test('fails on an invalid PFID', async () => {
+    const { code, stderr } = await cli(['inspect', 'invalid']);
+
+    expect(code).toBe(1);
+    expect(stderr).toMatch(/invalid PFID/);
+  });
+});
+
+describe('pfid validate', () => {
+  test('reports invalid lines with reasons', async () => {
+    const input = ['abc', example, '9' + example.slice(1), example.slice(0, 31) + 'u', ''].join('\n');
+    const { code, stdout } = await cli(['validate', '--json'], input);
+
+    expect(code).toBe(1);
+    expect(JSON.parse(stdout)).toMatchObject({
+      valid: 1,
+      invalid: [
+        {
+          line: 1,
+          input: 'abc',
+          reason: 'expected 32 characters, got 3; first character must be 0-7, got "a"',
+        },
+        { line: 3, input: '9' + example.slice(1), reason: 'first character must be 0-7, got "9"' },
+        {
+          line: 4,
+          input: example.slice(0, 31) + 'u',
+          reason: 'invalid character "u" at position 31',
+          issues: [{ reason: 'invalid_character', position: 31 }],
+        },
+      ],
+    });
+  });
+
+  test('succeeds when every line is valid', async () => {
+    const { code, stderr } = await cli(['validate'], `${example}\n${generateExample()}\n`);
+
+    expect(code).toBe(0);
+    expect(stderr).toBe('2 valid, 0 invalid');
+  });
+});
+
+describe('pfid convert', () => {
+  const hex = '015549f01d7e1a96bc133a66a08c07ce13d25363';
+  const base64 = 'AVVJ8B1+Gpa8EzpmoIwHzhPSU2M=';
+
+  test('converts a PFID to every form', async () => {
+    const { stdout } = await cli(['convert', example, '--json']);
+
+    expect(JSON.parse(stdout)).toEqual({ pfid: example, hex, base64 });
+  });
+
+  test('converts hex and base64 back to a PFID', async () => {
+    expect((await cli(['convert', hex, '--to', 'pfid'])).stdout).toBe(example);
+    expect((await cli(['convert', base64, '--to', 'pfid'])).stdout).toBe(example);
+    expect((await cli(['convert', 'AVVJ8B1-Gpa8EzpmoIwHzhPSU2M', '--to', 'pfid'])).stdout).toBe(example);
+  });
+
+  test('rejects unrecognised input', async () => {
+    expect((await cli(['convert', 'nope'])).code).toBe(1);
+    expect((await cli(['convert', example, '--to', 'nope'])).code).toBe(2);
+  });
+});
+
+describe('pfid', () => {
+  test('prints usage for unknown commands and options', async () => {
+    expect((await cli(['nope'])).stderr).toMatch(/Usage: pfid/);
+    expect((await cli(['generate', '--nope'])).code).toBe(2);
+    expect((await cli(['--help'])).code).toBe(0);
+  });
+
+  test('reports errors as JSON with --json', async () => {
+    const invalid = await cli(['inspect', 'nope', '--json']);
+    const usage = await cli(['generate', '--json']);
+
+    expect(invalid.code).toBe(1);
+    expect(JSON.parse(invalid.stderr)).toEqual({
+      error: { code: 'invalid_pfid', message: 'invalid PFID: expected 32 characters, got 4: "nope"' },
+    });
+    expect(usage.code).toBe(2);
+    expect(JSON.parse(usage.stderr)).toEqual({
+      error: { code: 'usage', message: 'generate needs exactly one of a partition, --root or --related' },
+    });
+  });
+});
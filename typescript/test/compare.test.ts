@@ -0,0 +1,173 @@
+import { describe, test, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  compare,
+  equals,
+  min,
+  max,
+  next,
+  prev,
+  timeDistance,
+  decode,
+  encode,
+  generateBinaryWithTimestamp,
+  generateWithTimestamp,
+  PfidError,
+} from '../src';
+
+const fixturesPath = join(__dirname, '..', '..', 'fixtures', 'pfid_fixtures.csv');
+const fixtures = readFileSync(fixturesPath, 'utf-8')
+  .split('\n')
+  .slice(1)
+  .filter((line) => line.trim() !== '')
+  .map((line) => line.trim().split(',')[3]);
+
+const smallest = '0'.repeat(32);
+const largest = '7' + 'z'.repeat(31);
+const example = '01an4z07byd9df0k79ka1307sr9x4mv3';
+
+// Unsigned byte order, independent of `compare`
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  const index = a.findIndex((byte, i) => byte !== b[i]);
+  return index < 0 ? 0 : a[index] < b[index] ? -1 : 1;
+}
+
+describe('compare', () => {
+  test('string and binary order agree for every pair of fixtures', () => {
+    const binaries = fixtures.map((pfid) => decode(pfid));
+    const disagreements: string[] = [];
+
+    for (let i = 0; i < fixtures.length; i++) {
+      for (let j = 0; j < fixtures.length; j++) {
+        const byString = fixtures[i] < fixtures[j] ? -1 : fixtures[i] > fixtures[j] ? 1 : 0;
+        if (
+          compareBytes(binaries[i], binaries[j]) !== byString ||
+          compare(fixtures[i], fixtures[j]) !== byString ||
+          compare(binaries[i], binaries[j]) !== byString ||
+          compare(fixtures[i], binaries[j]) !== byString
+        ) {
+          disagreements.push(`${fixtures[i]} ${fixtures[j]}`);
+        }
+      }
+    }
+
+    expect(disagreements).toEqual([]);
+  });
+
+  test('sorting fixtures as strings and as binaries gives the same order', () => {
+    const byString = [...fixtures].sort(compare);
+    const byBinary = fixtures.map((pfid) => decode(pfid)).sort(compare).map((binary) => encode(binary));
+
+    expect(byBinary).toEqual(byString);
+    expect([...fixtures].sort()).toEqual(byString);
+  });
+
+  test('orders by timestamp, then partition, then randomness', () => {
+    const randomness = new Uint8Array(10).fill(0xff);
+    const zero = new Uint8Array(10);
+
+    expect(compare(generateWithTimestamp(1_073_741_823, 1), generateWithTimestamp(0, 2))).toBe(-1);
+    expect(compare(`0000000001${'zzzzzz'}${'z'.repeat(16)}`, `0000000002${'000000'}${'0'.repeat(16)}`)).toBe(-1);
+    expect(compare(encode(new Uint8Array([0, 0, 0, 0, 0, 0, 0, 0, 0, 1, ...zero])), encode(new Uint8Array([0, 0, 0, 0, 0, 0, 0, 0, 0, 0, ...randomness])))).toBe(1);
+  });
+
+  test('accepts uppercase strings', () => {
+    expect(compare(example.toUpperCase(), example)).toBe(0);
+    expect(compare(example.toUpperCase(), largest)).toBe(-1);
+  });
+
+  test('throws error for invalid PFIDs', () => {
+    expect(() => compare('invalid', example)).toThrow(PfidError);
+    expect(() => compare(example, new Uint8Array(19))).toThrow(/invalid binary/);
+
+    const padded = decode(example);
+    padded[6] |= 0x40;
+    expect(() => compare(example, padded)).toThrow(/non-canonical binary/);
+  });
+});
+
+describe('equals', () => {
+  test('compares string and binary forms', () => {
+    expect(equals(example, decode(example))).toBe(true);
+    expect(equals(decode(example), example.toUpperCase())).toBe(true);
+    expect(equals(example, next(example))).toBe(false);
+  });
+});
+
+describe('min and max', () => {
+  test('return the first and last PFID as given', () => {
+    const binary = decode(example);
+
+    expect(min(largest, example, smallest)).toBe(smallest);
+    expect(max(largest, example, smallest)).toBe(largest);
+    expect(min<string | Uint8Array>(largest, binary)).toBe(binary);
+    expect(max(example)).toBe(example);
+  });
+
+  test('throw error for invalid PFIDs', () => {
+    expect(() => min('invalid')).toThrow(PfidError);
+    expect(() => max(example, 'invalid')).toThrow(PfidError);
+  });
+});
+
+describe('next and prev', () => {
+  test('step through the randomness', () => {
+    expect(next(smallest)).toBe('0'.repeat(31) + '1');
+    expect(prev('0'.repeat(31) + '1')).toBe(smallest);
+  });
+
+  test('carry from the randomness into the partition', () => {
+    expect(next('0000000000000000zzzzzzzzzzzzzzzz')).toBe('00000000000000010000000000000000');
+    expect(prev('00000000000000010000000000000000')).toBe('0000000000000000zzzzzzzzzzzzzzzz');
+  });
+
+  test('skip the padding bits when carrying into the timestamp', () => {
+    expect(next('0000000000zzzzzzzzzzzzzzzzzzzzzz')).toBe('00000000010000000000000000000000');
+    expect(prev('00000000010000000000000000000000')).toBe('0000000000zzzzzzzzzzzzzzzzzzzzzz');
+  });
+
+  test('return the same form', () => {
+    const binary = generateBinaryWithTimestamp(42, 1_700_000_000_000);
+    const after = next(binary);
+
+    expect(after).toBeInstanceOf(Uint8Array);
+    expect(compare(binary, after)).toBe(-1);
+    expect(prev(after)).toEqual(binary);
+    expect(binary).toEqual(prev(after));
+  });
+
+  test('are adjacent for every fixture', () => {
+    for (const pfid of fixtures) {
+      if (pfid !== largest) {
+        expect(compare(pfid, next(pfid))).toBe(-1);
+        expect(prev(next(pfid))).toBe(pfid);
+      }
+      if (pfid !== smallest) {
+        expect(next(prev(pfid))).toBe(pfid);
+      }
+    }
+  });
+
+  test('throw out_of_range at the ends', () => {
+    expect(() => next(largest)).toThrow(expect.objectContaining({ code: 'out_of_range' }));
+    expect(() => prev(smallest)).toThrow(expect.objectContaining({ code: 'out_of_range' }));
+    expect(() => next(decode(largest))).toThrow(PfidError);
+  });
+});
+
+describe('timeDistance', () => {
+  test('returns the milliseconds between timestamps in either order', () => {
+    const earlier = generateWithTimestamp(1, 1_700_000_000_000);
+    const later = generateBinaryWithTimestamp(2, 1_700_000_012_345);
+
+    expect(timeDistance(earlier, later)).toBe(12_345);
+    expect(timeDistance(later, earlier)).toBe(12_345);
+    expect(timeDistance(earlier, earlier)).toBe(0);
+    expect(timeDistance(smallest, largest)).toBe(281_474_976_710_655);
+  });
+
+  test('throws error for invalid PFIDs', () => {
+    expect(() => timeDistance('invalid', example)).toThrow(PfidError);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, test, expect, afterEach } from 'vitest';
+import {
+  currentPartition,
+  generateInContext,
+  setDefaultPartition,
+  withPartition,
+  withRelatedPartition,
+} from '../src/context';
+import { extractPartition, generate, isPfid, PfidError } from '../src';
+
+afterEach(() => {
+  setDefaultPartition(undefined);
+});
+
+describe('withPartition', () => {
+  test('generates in the ambient partition', () => {
+    withPartition(123_456_789, () => {
+      const pfid = generateInContext();
+
+      expect(isPfid(pfid)).toBe(true);
+      expect(extractPartition(pfid)).toBe(123_456_789);
+    });
+  });
+
+  test('returns what the function returns', async () => {
+    expect(withPartition(1, () => 'result')).toBe('result');
+    await expect(withPartition(1, async () => 'result')).resolves.toBe('result');
+  });
+
+  test('keeps the partition across awaits', async () => {
+    const pfids = await withPartition(42, async () => {
+      const first = generateInContext();
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      return [first, generateInContext()];
+    });
+
+    expect(pfids.map((pfid) => extractPartition(pfid))).toEqual([42, 42]);
+  });
+
+  test('isolates concurrent scopes', async () => {
+    const scoped = (partition: number) =>
+      withPartition(partition, async () => {
+        await new Promise((resolve) => setTimeout(resolve, 3 - partition));
+        return extractPartition(generateInContext());
+      });
+
+    expect(await Promise.all([scoped(1), scoped(2), scoped(3)])).toEqual([1, 2, 3]);
+  });
+
+  test('nested scopes override the outer partition', () => {
+    withPartition(1, () => {
+      withPartition(2, () => {
+        expect(currentPartition()).toBe(2);
+      });
+      expect(currentPartition()).toBe(1);
+    });
+  });
+
+  test('the scope ends with the function', () => {
+    withPartition(1, () => {});
+
+    expect(currentPartition()).toBeUndefined();
+  });
+
+  test('throws error for invalid partitions', () => {
+    for (const partition of [-1, 1073741824, 1.5, NaN]) {
+      expect(() => withPartition(partition, () => {})).toThrow(expect.objectContaining({ code: 'invalid_partition' }));
+    }
+  });
+});
+
+describe('withRelatedPartition', () => {
+  test('child entities inherit the partition of the parent', () => {
+    const parent = generate(987_654_321);
+
+    withRelatedPartition(parent, () => {
+      expect(extractPartition(generateInContext())).toBe(987_654_321);
+    });
+  });
+
+  test('throws error for invalid PFIDs', () => {
+    expect(() => withRelatedPartition('invalid', () => {})).toThrow(PfidError);
+  });
+});
+
+describe('generateInContext', () => {
+  test('throws error without a partition', () => {
+    expect(() => generateInContext()).toThrow(expect.objectContaining({ code: 'no_partition' }));
+    expect(() => generateInContext()).toThrow(/withPartition/);
+  });
+
+  test('falls back to the default partition', () => {
+    setDefaultPartition(7);
+
+    expect(extractPartition(generateInContext())).toBe(7);
+    withPartition(8, () => {
+      expect(extractPartition(generateInContext())).toBe(8);
+    });
+  });
+
+  test('the default partition can be cleared', () => {
+    setDefaultPartition(7);
+    setDefaultPartition(undefined);
+
+    expect(currentPartition()).toBeUndefined();
+    expect(() => generateInContext()).toThrow(PfidError);
+  });
+
+  test('rejects an invalid default partition', () => {
+    expect(() => setDefaultPartition(-1)).toThrow(expect.objectContaining({ code: 'invalid_partition' }));
+  });
+});
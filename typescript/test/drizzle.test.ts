@@ -0,0 +1,113 @@
+import { describe, test, expect } from 'vitest';
+import { eq, inArray } from 'drizzle-orm';
+import { integer, pgTable } from 'drizzle-orm/pg-core';
+import { drizzle } from 'drizzle-orm/pg-proxy';
+import { decode, generate, PfidError, rangeForBinary } from '../src';
+import { pfid, pfidBetween } from '../src/drizzle';
+
+const orders = pgTable('orders', {
+  id: pfid().primaryKey(),
+  customerId: pfid('customer_id', { mode: 'string' }).notNull(),
+  quantity: integer('quantity').notNull(),
+});
+
+const events = pgTable('events', {
+  id: pfid('id', { mode: 'binary' }).primaryKey(),
+});
+
+interface Call {
+  sql: string;
+  params: unknown[];
+}
+
+// A database that records each query, and answers with the given rows
+function database(rows: unknown[][] = []) {
+  const calls: Call[] = [];
+  const db = drizzle(async (sql, params) => {
+    calls.push({ sql, params });
+    return { rows };
+  });
+  return { db, calls };
+}
+
+describe('pfid', () => {
+  test('is a bytea column', () => {
+    expect(orders.id.getSQLType()).toBe('bytea');
+    expect(orders.id.name).toBe('id');
+    expect(orders.customerId.name).toBe('customer_id');
+    expect(events.id.getSQLType()).toBe('bytea');
+  });
+
+  test('writes PFID strings as binaries', async () => {
+    const { db, calls } = database();
+    const id = generate(1);
+    const customerId = generate(2);
+
+    await db.insert(orders).values({ id, customerId, quantity: 3 });
+
+    expect(calls[0].params).toEqual([decode(id), decode(customerId), 3]);
+  });
+
+  test('compares PFID strings as binaries', async () => {
+    const { db, calls } = database();
+    const ids = [generate(1), generate(2)];
+
+    await db.select().from(orders).where(eq(orders.id, ids[0]));
+    await db.select().from(orders).where(inArray(orders.id, ids));
+
+    expect(calls[0].params).toEqual([decode(ids[0])]);
+    expect(calls[1].params).toEqual(ids.map((id) => decode(id)));
+  });
+
+  test('reads binaries as PFID strings', async () => {
+    const id = generate(1);
+    const customerId = generate(2);
+    const { db } = database([[Buffer.from(decode(id)), Buffer.from(decode(customerId)), 3]]);
+
+    expect(await db.select().from(orders)).toEqual([{ id, customerId, quantity: 3 }]);
+  });
+
+  test('reads and writes binaries in binary mode', async () => {
+    const binary = decode(generate(1));
+    const { db, calls } = database([[Buffer.from(binary)]]);
+
+    await db.insert(events).values({ id: binary });
+    const [row] = await db.select().from(events);
+
+    expect(calls[0].params).toEqual([binary]);
+    expect(row.id).toEqual(binary);
+    expect(Buffer.isBuffer(row.id)).toBe(false);
+  });
+
+  test('throws on an invalid PFID in either direction', async () => {
+    const { db } = database([[new Uint8Array(3), decode(generate(2)), 3]]);
+
+    await expect(async () => {
+      await db.insert(orders).values({ id: 'invalid', customerId: generate(2), quantity: 3 });
+    }).rejects.toThrow(PfidError);
+    await expect(async () => {
+      await db.select().from(orders);
+    }).rejects.toThrow(expect.objectContaining({ code: 'invalid_binary' }));
+    await expect(async () => {
+      await db.insert(events).values({ id: new Uint8Array(3) });
+    }).rejects.toThrow(PfidError);
+  });
+});
+
+describe('pfidBetween', () => {
+  test('matches the range of a time window', async () => {
+    const { db, calls } = database();
+    const { lower, upper } = rangeForBinary(1_000, 2_000, 42);
+
+    await db.select().from(orders).where(pfidBetween(orders.id, 1_000, 2_000, 42));
+    await db.select().from(events).where(pfidBetween(events.id, 1_000, 2_000, 42));
+
+    expect(calls[0].sql).toMatch(/where "orders"\."id" between \$1 and \$2$/);
+    expect(calls[0].params).toEqual([lower, upper]);
+    expect(calls[1].params).toEqual([lower, upper]);
+  });
+
+  test('throws when the start is after the end', () => {
+    expect(() => pfidBetween(orders.id, 2_000, 1_000)).toThrow(expect.objectContaining({ code: 'invalid_timestamp' }));
+  });
+});
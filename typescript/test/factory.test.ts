@@ -0,0 +1,147 @@
+import { describe, test, expect } from 'vitest';
+import {
+  createFakeClock,
+  createPfidFactory,
+  createSeededRandom,
+  decode,
+  extractPartition,
+  isPfid,
+  parse,
+  PfidError,
+} from '../src';
+
+// The reference Mulberry32, as published, scaled back to a 32-bit integer
+function mulberry32(a: number) {
+  return function () {
+    let t = (a += 0x6d2b79f5);
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (t ^ (t >>> 14)) >>> 0;
+  };
+}
+
+function seeded(seed = 42) {
+  return createPfidFactory({ clock: createFakeClock(1_700_000_000_000), random: createSeededRandom(seed) });
+}
+
+describe('createPfidFactory', () => {
+  test('generates the same PFIDs from the same seed and clock', () => {
+    const a = seeded();
+    const b = seeded();
+
+    for (let i = 0; i < 10; i++) {
+      expect(a.generate(i)).toBe(b.generate(i));
+    }
+    expect(a.generateRoot()).toBe(b.generateRoot());
+    expect(a.generatePartition()).toBe(b.generatePartition());
+    expect(a.generateBinary(1)).toEqual(b.generateBinary(1));
+  });
+
+  test('generates different PFIDs from different seeds', () => {
+    expect(seeded(1).generate(1)).not.toBe(seeded(2).generate(1));
+  });
+
+  test('generates stable PFIDs across versions', () => {
+    const factory = seeded();
+
+    expect(factory.generate(123_456_789)).toBe('01hf7yat003nqk8nk7gyyz3jrcnrnphv');
+    expect(factory.generateRoot()).toBe('01hf7yat00nq7c5d5k09n2m6sv2d6hfj');
+  });
+
+  test('exposes the full generation surface', () => {
+    const factory = seeded();
+
+    expect(extractPartition(factory.generate(7))).toBe(7);
+    expect(parse(factory.generateWithTimestamp(7, 1_000)).timestamp).toBe(1_000);
+    expect(parse(factory.generateExample())).toMatchObject({ partition: 123_456_789, timestamp: 1_234_567_890_000 });
+    expect(extractPartition(factory.generateRelated(factory.generate(99)))).toBe(99);
+    expect(isPfid(factory.generateRoot())).toBe(true);
+    expect(factory.generateBinary(7)).toHaveLength(20);
+    expect(parse(factory.generateBinaryWithTimestamp(7, 1_000)).timestamp).toBe(1_000);
+    expect(factory.generatePartition()).toBeLessThanOrEqual(1_073_741_823);
+  });
+
+  test('generateExample is reproducible', () => {
+    expect(seeded().generateExample()).toBe(seeded().generateExample());
+  });
+
+  test('is monotonic within a millisecond', () => {
+    const factory = seeded();
+    const pfids = Array.from({ length: 100 }, () => factory.generate(1));
+
+    expect([...pfids].sort()).toEqual(pfids);
+    expect(new Set(pfids).size).toBe(100);
+  });
+
+  test('uses the system clock and Web Crypto by default', () => {
+    const factory = createPfidFactory();
+    const before = Date.now();
+    const { timestamp } = parse(factory.generate(1));
+
+    expect(timestamp).toBeGreaterThanOrEqual(before);
+    expect(timestamp).toBeLessThanOrEqual(Date.now());
+  });
+
+  test('generateRelated throws error for invalid PFIDs', () => {
+    const factory = seeded();
+
+    expect(() => factory.generateRelated('invalid')).toThrow(PfidError);
+    expect(() => factory.generateRelated('01AN4Z07BYD9DF0K79KA1307SR9X4MV3')).toThrow(
+      expect.objectContaining({ code: 'invalid_pfid', reason: 'non_canonical_case' }),
+    );
+  });
+});
+
+describe('createSeededRandom', () => {
+  test('matches the reference Mulberry32', () => {
+    const reference = mulberry32(42);
+    const bytes = createSeededRandom(42)(16);
+
+    for (let i = 0; i < 16; i += 4) {
+      const value = reference();
+      expect([...bytes.subarray(i, i + 4)]).toEqual([value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]);
+    }
+  });
+
+  test('returns exactly the requested number of bytes', () => {
+    const random = createSeededRandom(1);
+
+    expect(random(10)).toHaveLength(10);
+    expect(random(0)).toHaveLength(0);
+    expect(random(3)).toHaveLength(3);
+  });
+
+  test('reduces any number to a 32-bit seed', () => {
+    expect(createSeededRandom(2 ** 32 + 5)(8)).toEqual(createSeededRandom(5)(8));
+  });
+});
+
+describe('createFakeClock', () => {
+  test('only moves when told to', () => {
+    const clock = createFakeClock(1_000);
+
+    expect(clock()).toBe(1_000);
+    expect(clock()).toBe(1_000);
+    clock.advance(5);
+    expect(clock()).toBe(1_005);
+    clock.set(2_000);
+    expect(clock()).toBe(2_000);
+  });
+
+  test('starts at the epoch by default', () => {
+    expect(createFakeClock()()).toBe(0);
+  });
+
+  test('drives the factory timestamp', () => {
+    const clock = createFakeClock(1_000);
+    const factory = createPfidFactory({ clock, random: createSeededRandom(1) });
+
+    const first = factory.generate(1);
+    clock.advance(1);
+    const second = factory.generate(1);
+
+    expect(parse(first).timestamp).toBe(1_000);
+    expect(parse(second).timestamp).toBe(1_001);
+    expect(decode(second)).not.toEqual(decode(first));
+  });
+});
@@ -2,6 +2,9 @@ import { describe, test, expect } from 'vitest';
 import { readFileSync } from 'fs';
 import { join } from 'path';
 import {
+  compose,
+  composeBinary,
+  parse,
   encode,
   decode,
   extractPartition,
@@ -18,23 +21,13 @@ function validateFixture(line: string): void {
   const randomness = Buffer.from(randomnessHex, 'hex');
 
   // Construct binary PFID
-  // Layout: 48 bits timestamp + 32 bits partition + 80 bits randomness
-  const binary = Buffer.alloc(20, 0);
+  const binary = composeBinary({ timestamp, partition, randomness });
 
-  // Write timestamp (48 bits = 6 bytes) - big endian
-  // JavaScript bitwise operators only work on 32 bits, so we need to use division for high bits
-  binary[0] = Math.floor(timestamp / 0x10000000000) & 0xff; // >> 40
-  binary[1] = Math.floor(timestamp / 0x100000000) & 0xff;   // >> 32
-  binary[2] = (timestamp >> 24) & 0xff;
-  binary[3] = (timestamp >> 16) & 0xff;
-  binary[4] = (timestamp >> 8) & 0xff;
-  binary[5] = timestamp & 0xff;
-
-  // Write partition (32 bits = 4 bytes) - big endian
-  binary.writeUInt32BE(partition, 6);
-
-  // Write randomness (80 bits = 10 bytes)
-  randomness.copy(binary, 10);
+  // Test composing
+  expect(
+    compose({ timestamp, partition, randomness }),
+    'Composed PFID does not match expected value'
+  ).toBe(expectedPfid);
 
   // Test encoding
   const encoded = encode(binary);
@@ -57,6 +50,12 @@ function validateFixture(line: string): void {
     `Extracted partition does not match expected value. Got: ${extractedPartition}, Expected: ${partition}`
   ).toBe(partition);
 
+  // Test parsing
+  expect(
+    parse(expectedPfid),
+    'Parsed parts do not match fixture'
+  ).toEqual({ timestamp, date: new Date(timestamp), partition, randomness: new Uint8Array(randomness) });
+
   // Test is_pfid?
   expect(
     isPfid(expectedPfid),
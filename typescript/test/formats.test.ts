@@ -0,0 +1,145 @@
+import { describe, test, expect } from 'vitest';
+import {
+  toHex,
+  fromHex,
+  toBase64Url,
+  fromBase64Url,
+  toBigInt,
+  fromBigInt,
+  format,
+  parseFormatted,
+  canonicalize,
+  decode,
+  encode,
+  generateBinary,
+  PfidError,
+} from '../src';
+
+const example = '01an4z07byd9df0k79ka1307sr9x4mv3';
+const binary = decode(example);
+const largest = decode('7' + 'z'.repeat(31));
+
+function padded(): Uint8Array {
+  const bytes = generateBinary(1);
+  bytes[6] |= 0x80;
+  return bytes;
+}
+
+describe('hex', () => {
+  test('matches the hex of the binary', () => {
+    expect(toHex(binary)).toBe(Buffer.from(binary).toString('hex'));
+    expect(toHex(new Uint8Array(20))).toBe('0'.repeat(40));
+  });
+
+  test('round-trips through the binary', () => {
+    for (let i = 0; i < 100; i++) {
+      const bytes = generateBinary(i);
+
+      expect(fromHex(toHex(bytes))).toEqual(bytes);
+    }
+    expect(fromHex(toHex(binary).toUpperCase())).toEqual(binary);
+  });
+
+  test('throws error for invalid input', () => {
+    expect(() => fromHex('abc')).toThrow(/invalid binary/);
+    expect(() => fromHex('g'.repeat(40))).toThrow(PfidError);
+    expect(() => fromHex(123 as any)).toThrow(PfidError);
+    expect(() => fromHex(Buffer.from(padded()).toString('hex'))).toThrow(/non-canonical binary/);
+    expect(() => toHex(new Uint8Array(19))).toThrow(/invalid binary/);
+    expect(() => toHex(padded())).toThrow(/non-canonical binary/);
+  });
+});
+
+describe('base64url', () => {
+  test('matches unpadded base64url of the binary', () => {
+    for (let i = 0; i < 100; i++) {
+      const bytes = generateBinary(i);
+
+      expect(toBase64Url(bytes)).toBe(Buffer.from(bytes).toString('base64url'));
+    }
+    expect(toBase64Url(new Uint8Array(20))).toBe('A'.repeat(27));
+  });
+
+  test('round-trips through the binary', () => {
+    for (let i = 0; i < 100; i++) {
+      const bytes = generateBinary(i);
+
+      expect(fromBase64Url(toBase64Url(bytes))).toEqual(bytes);
+    }
+    expect(fromBase64Url(toBase64Url(largest))).toEqual(largest);
+  });
+
+  test('throws error for invalid input', () => {
+    const text = toBase64Url(binary);
+
+    expect(() => fromBase64Url(text + '=')).toThrow(/invalid binary/);
+    expect(() => fromBase64Url(text.substring(0, 26) + '+')).toThrow(PfidError);
+    // The unused low bits of the last character must be clear
+    expect(() => fromBase64Url(text.substring(0, 26) + 'B')).toThrow(/invalid binary/);
+    expect(() => fromBase64Url(Buffer.from(padded()).toString('base64url'))).toThrow(/non-canonical binary/);
+    expect(() => toBase64Url('not binary' as any)).toThrow(PfidError);
+  });
+});
+
+describe('bigint', () => {
+  test('reads the binary as a big-endian integer', () => {
+    expect(toBigInt(binary)).toBe(BigInt('0x' + Buffer.from(binary).toString('hex')));
+    expect(toBigInt(new Uint8Array(20))).toBe(0n);
+  });
+
+  test('round-trips through the binary', () => {
+    for (let i = 0; i < 100; i++) {
+      const bytes = generateBinary(i);
+
+      expect(fromBigInt(toBigInt(bytes))).toEqual(bytes);
+    }
+    expect(fromBigInt(toBigInt(largest))).toEqual(largest);
+  });
+
+  test('sorts in the same order as PFID strings', () => {
+    const binaries = Array.from({ length: 100 }, () => canonicalize(crypto.getRandomValues(new Uint8Array(20))));
+    const byString = [...binaries].sort((a, b) => (encode(a) < encode(b) ? -1 : 1));
+    const byBigInt = [...binaries].sort((a, b) => (toBigInt(a) < toBigInt(b) ? -1 : 1));
+
+    expect(byBigInt).toEqual(byString);
+  });
+
+  test('throws error for invalid input', () => {
+    expect(() => fromBigInt(-1n)).toThrow(/invalid binary PFID: -1n/);
+    expect(() => fromBigInt(1n << 160n)).toThrow(/invalid binary/);
+    expect(() => fromBigInt(1n << 111n)).toThrow(/non-canonical binary/);
+    expect(() => fromBigInt(1 as any)).toThrow(PfidError);
+    expect(() => toBigInt(padded())).toThrow(/non-canonical binary/);
+  });
+});
+
+describe('grouped format', () => {
+  test('separates the timestamp, partition and randomness', () => {
+    expect(format(example, 'grouped')).toBe('01an4z07by-d9df0k-79ka1307sr9x4mv3');
+  });
+
+  test('round-trips through parseFormatted', () => {
+    for (let i = 0; i < 100; i++) {
+      const pfid = encode(generateBinary(i));
+
+      expect(parseFormatted(format(pfid, 'grouped'), 'grouped')).toBe(pfid);
+    }
+  });
+
+  test('parseFormatted accepts either case, like fromHex', () => {
+    expect(parseFormatted(format(example, 'grouped').toUpperCase(), 'grouped')).toBe(example);
+    expect(fromHex(toHex(decode(example)).toUpperCase())).toEqual(decode(example));
+  });
+
+  test('throws error for invalid input', () => {
+    expect(() => format('invalid', 'grouped')).toThrow(/invalid PFID/);
+    expect(() => parseFormatted(example, 'grouped')).toThrow(/invalid PFID/);
+    expect(() => parseFormatted('01an4z07b-yd9df0k-79ka1307sr9x4mv3', 'grouped')).toThrow(PfidError);
+    expect(() => parseFormatted('81an4z07by-d9df0k-79ka1307sr9x4mv3', 'grouped')).toThrow(PfidError);
+  });
+
+  test('throws error for an unknown format', () => {
+    expect(() => format(example, 'spaced' as any)).toThrow(expect.objectContaining({ code: 'unknown_format' }));
+    expect(() => parseFormatted(example, 'spaced' as any)).toThrow('unknown PFID format: "spaced"');
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, test, expect, vi } from 'vitest';
+import {
+  PfidGenerator,
+  decode,
+  extractPartition,
+  isPfid,
+  PfidError,
+} from '../src';
+
+function fixedRandom(fill: number) {
+  return (size: number) => new Uint8Array(size).fill(fill);
+}
+
+function timestampOf(binary: Uint8Array): number {
+  return Buffer.from(binary).readUIntBE(0, 6);
+}
+
+function randomnessHex(binary: Uint8Array): string {
+  return Buffer.from(binary.subarray(10)).toString('hex');
+}
+
+describe('PfidGenerator', () => {
+  test('generates valid PFIDs with the given partition', () => {
+    const generator = new PfidGenerator();
+    const pfid = generator.generate(123_456_789);
+
+    expect(isPfid(pfid)).toBe(true);
+    expect(extractPartition(pfid)).toBe(123_456_789);
+  });
+
+  test('uses the injected clock', () => {
+    const generator = new PfidGenerator({ clock: () => 1_234_567_890_000 });
+    const binary = generator.generateBinary(1);
+
+    expect(timestampOf(binary)).toBe(1_234_567_890_000);
+  });
+
+  test('increments randomness within the same millisecond and partition', () => {
+    const generator = new PfidGenerator({ clock: () => 1_000, random: fixedRandom(0) });
+
+    const first = generator.generateBinary(1);
+    const second = generator.generateBinary(1);
+    const third = generator.generateBinary(1);
+
+    expect(randomnessHex(first)).toBe('00000000000000000000');
+    expect(randomnessHex(second)).toBe('00000000000000000001');
+    expect(randomnessHex(third)).toBe('00000000000000000002');
+  });
+
+  test('carries the increment across bytes', () => {
+    const bytes = Buffer.from('000000000000000000ff', 'hex');
+    const generator = new PfidGenerator({ clock: () => 1_000, random: () => new Uint8Array(bytes) });
+
+    generator.generateBinary(1);
+    const next = generator.generateBinary(1);
+
+    expect(randomnessHex(next)).toBe('00000000000000000100');
+  });
+
+  test('keeps each partition monotonic independently', () => {
+    let fill = 0x10;
+    const generator = new PfidGenerator({
+      clock: () => 1_000,
+      random: (size) => new Uint8Array(size).fill(fill++),
+    });
+
+    const a1 = generator.generate(1);
+    const b1 = generator.generate(2);
+    const a2 = generator.generate(1);
+    const b2 = generator.generate(2);
+
+    expect(a2 > a1).toBe(true);
+    expect(b2 > b1).toBe(true);
+  });
+
+  test('draws fresh randomness when the clock advances', () => {
+    let now = 1_000;
+    let fill = 0;
+    const generator = new PfidGenerator({
+      clock: () => now,
+      random: (size) => new Uint8Array(size).fill(fill++),
+    });
+
+    generator.generateBinary(1);
+    now++;
+    const next = generator.generateBinary(1);
+
+    expect(timestampOf(next)).toBe(1_001);
+    expect(randomnessHex(next)).toBe('01010101010101010101');
+  });
+
+  test('generates sorted PFIDs in a tight loop', () => {
+    const generator = new PfidGenerator();
+    const pfids = Array.from({ length: 1_000 }, () => generator.generate(42));
+
+    expect([...pfids].sort()).toEqual(pfids);
+    expect(new Set(pfids).size).toBe(pfids.length);
+  });
+
+  test('keeps the last timestamp when the clock goes backwards', () => {
+    let now = 2_000;
+    const generator = new PfidGenerator({ clock: () => now, random: fixedRandom(0) });
+
+    const first = generator.generate(1);
+    now = 1_000;
+    const second = generator.generate(1);
+
+    expect(timestampOf(decode(second))).toBe(2_000);
+    expect(second > first).toBe(true);
+  });
+
+  test('throws PfidError when the randomness overflows', () => {
+    const generator = new PfidGenerator({ clock: () => 1_000, random: fixedRandom(0xff) });
+
+    generator.generateBinary(1);
+    expect(() => generator.generateBinary(1)).toThrow(PfidError);
+    expect(() => generator.generateBinary(1)).toThrow(/randomness overflow/);
+  });
+
+  test('generateBinaryWithTimestamp draws fresh randomness', () => {
+    let fill = 0;
+    const generator = new PfidGenerator({ random: (size) => new Uint8Array(size).fill(fill++) });
+
+    const first = generator.generateBinaryWithTimestamp(1, 1_000);
+    const second = generator.generateBinaryWithTimestamp(1, 1_000);
+
+    expect(randomnessHex(first)).toBe('00000000000000000000');
+    expect(randomnessHex(second)).toBe('01010101010101010101');
+  });
+
+  test('generatePartition uses the injected random source', () => {
+    const generator = new PfidGenerator({ random: fixedRandom(0xff) });
+
+    expect(generator.generatePartition()).toBe(1_073_741_823);
+  });
+
+  test('throws on invalid partition', () => {
+    const generator = new PfidGenerator();
+
+    expect(() => generator.generate(-1)).toThrow(expect.objectContaining({ code: 'invalid_partition' }));
+    expect(() => generator.generate(1_073_741_824)).toThrow(expect.objectContaining({ code: 'invalid_partition' }));
+  });
+
+  test('throws when the clock returns an invalid timestamp', () => {
+    const generator = new PfidGenerator({ clock: () => -1 });
+
+    expect(() => generator.generate(1)).toThrow(expect.objectContaining({ code: 'invalid_timestamp' }));
+  });
+
+  test('throws no_crypto without Web Crypto, unless given a random source', () => {
+    // As on Node 18 and earlier
+    vi.stubGlobal('crypto', undefined);
+    try {
+      expect(() => new PfidGenerator().generate(1)).toThrow(expect.objectContaining({ code: 'no_crypto' }));
+      expect(isPfid(new PfidGenerator({ random: fixedRandom(7) }).generate(1))).toBe(true);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, test, expect } from 'vitest';
+import { Kysely, PostgresDialect, type Generated } from 'kysely';
+import { decode, generate, PfidError, rangeForBinary, type BinaryPfid, type Pfid } from '../src';
+import { PfidPlugin, pfidBetween } from '../src/kysely';
+
+interface Database {
+  orders: {
+    id: Pfid;
+    customer_id: Pfid;
+    quantity: number;
+    note: string | null;
+  };
+  events: {
+    id: Generated<number>;
+    order_id: Pfid | BinaryPfid;
+  };
+}
+
+interface Call {
+  sql: string;
+  params: unknown[];
+}
+
+// A database that records each query, and answers with the given rows
+function database(rows: Record<string, unknown>[] = []) {
+  const calls: Call[] = [];
+  const client = {
+    query: async (sql: string, params: unknown[]) => {
+      calls.push({ sql, params });
+      return { command: 'SELECT', rowCount: rows.length, rows };
+    },
+    release: () => {},
+  };
+  const db = new Kysely<Database>({
+    dialect: new PostgresDialect({ pool: { connect: async () => client, end: async () => {} } as any }),
+    plugins: [new PfidPlugin({ columns: ['id', 'customer_id', 'order_id'] })],
+  });
+  return { db, calls };
+}
+
+describe('PfidPlugin', () => {
+  test('converts compared values', async () => {
+    const { db, calls } = database();
+    const ids = [generate(1), generate(2)];
+
+    await db.selectFrom('orders').selectAll().where('id', '=', ids[0]).execute();
+    await db.selectFrom('orders').selectAll().where('orders.customer_id', 'in', ids).execute();
+    await db
+      .selectFrom('orders')
+      .selectAll()
+      .where((eb) => eb.between('id', ids[0], ids[1]))
+      .execute();
+
+    expect(calls[0].params).toEqual([decode(ids[0])]);
+    expect(calls[1].params).toEqual(ids.map((id) => decode(id)));
+    expect(calls[2].params).toEqual(ids.map((id) => decode(id)));
+  });
+
+  test('converts inserted values', async () => {
+    const { db, calls } = database();
+    const ids = [generate(1), generate(2), generate(3), generate(4)];
+
+    await db
+      .insertInto('orders')
+      .values([
+        { id: ids[0], customer_id: ids[1], quantity: 1, note: 'first' },
+        { id: ids[2], customer_id: ids[3], quantity: 2, note: null },
+      ])
+      .execute();
+
+    expect(calls[0].params).toEqual([
+      ...[decode(ids[0]), decode(ids[1]), 1, 'first'],
+      ...[decode(ids[2]), decode(ids[3]), 2, null],
+    ]);
+  });
+
+  test('converts updated values', async () => {
+    const { db, calls } = database();
+    const [id, customerId] = [generate(1), generate(2)];
+
+    await db.updateTable('orders').set({ customer_id: customerId, note: 'moved' }).where('id', '=', id).execute();
+
+    expect(calls[0].params).toEqual([decode(customerId), 'moved', decode(id)]);
+  });
+
+  test('leaves binaries and other columns alone', async () => {
+    const { db, calls } = database();
+    const binary = decode(generate(1));
+
+    await db.insertInto('events').values({ order_id: binary }).execute();
+    await db.selectFrom('orders').selectAll().where('note', '=', generate(2)).execute();
+
+    expect(calls[0].params).toEqual([binary]);
+    expect(calls[1].params[0]).toEqual(expect.any(String));
+  });
+
+  test('converts selected values', async () => {
+    const [id, customerId] = [generate(1), generate(2)];
+    const { db } = database([
+      { id: Buffer.from(decode(id)), customer_id: Buffer.from(decode(customerId)), quantity: 1, note: null },
+    ]);
+
+    expect(await db.selectFrom('orders').selectAll().execute()).toEqual([
+      { id, customer_id: customerId, quantity: 1, note: null },
+    ]);
+  });
+
+  test('converts result columns by name, whatever table or alias they are from', async () => {
+    const id = generate(1);
+    const { db } = database([{ id: Buffer.from(decode(id)) }]);
+
+    expect(await db.selectFrom('events').select('order_id as id').execute()).toEqual([{ id }]);
+  });
+
+  test('throws on an invalid PFID in either direction', async () => {
+    const { db } = database([{ id: new Uint8Array(3) }]);
+
+    await expect(db.selectFrom('orders').selectAll().where('id', '=', 'invalid').execute()).rejects.toThrow(PfidError);
+    await expect(db.selectFrom('orders').select('id').execute()).rejects.toThrow(
+      expect.objectContaining({ code: 'invalid_binary' }),
+    );
+  });
+});
+
+describe('pfidBetween', () => {
+  test('matches the range of a time window', async () => {
+    const { db, calls } = database();
+    const { lower, upper } = rangeForBinary(1_000, 2_000, 42);
+
+    await db.selectFrom('orders').selectAll().where(pfidBetween('orders.id', 1_000, 2_000, 42)).execute();
+
+    expect(calls[0].sql).toMatch(/where "orders"\."id" between \$1 and \$2$/);
+    expect(calls[0].params).toEqual([lower, upper]);
+  });
+
+  test('throws when the start is after the end', () => {
+    expect(() => pfidBetween('id', 2_000, 1_000)).toThrow(expect.objectContaining({ code: 'invalid_timestamp' }));
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, test, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { extractPartition, fromUlid, fromUuidV7, generate, parse, PfidError, toUlid, toUuidV7 } from '../src';
+
+const fixturesPath = join(__dirname, '..', '..', 'fixtures', 'migration_fixtures.csv');
+
+function readFixtures() {
+  return readFileSync(fixturesPath, 'utf-8')
+    .split('\n')
+    .slice(1)
+    .filter((line) => line.trim() !== '')
+    .map((line) => {
+      const [timestamp, partition, ulid, uuid, pfidFromUlid, pfidFromUuid] = line.trim().split(',');
+      return { timestamp: parseInt(timestamp, 10), partition: parseInt(partition, 10), ulid, uuid, pfidFromUlid, pfidFromUuid };
+    });
+}
+
+const ulid = '01ARYZ6S41TSV4RRFFQ69G5FAV';
+const uuid = '017f22e2-79b0-7cc3-98c4-dc0c0c07398f';
+
+describe('fixtures', () => {
+  const fixtures = readFixtures();
+
+  test('fromUlid and toUlid match the fixtures', () => {
+    for (const fixture of fixtures) {
+      expect(fromUlid(fixture.ulid, fixture.partition), fixture.ulid).toBe(fixture.pfidFromUlid);
+      expect(toUlid(fixture.pfidFromUlid)).toBe(fixture.ulid);
+    }
+  });
+
+  test('fromUuidV7 and toUuidV7 match the fixtures', () => {
+    for (const fixture of fixtures) {
+      expect(fromUuidV7(fixture.uuid, fixture.partition), fixture.uuid).toBe(fixture.pfidFromUuid);
+      expect(toUuidV7(fixture.pfidFromUuid)).toBe(fixture.uuid);
+    }
+  });
+
+  test('conversions keep the timestamp and partition', () => {
+    for (const fixture of fixtures) {
+      expect(parse(fixture.pfidFromUlid).timestamp).toBe(fixture.timestamp);
+      expect(parse(fixture.pfidFromUuid).timestamp).toBe(fixture.timestamp);
+      expect(extractPartition(fixture.pfidFromUlid)).toBe(fixture.partition);
+      expect(extractPartition(fixture.pfidFromUuid)).toBe(fixture.partition);
+    }
+  });
+
+  test('UUIDv7 timestamps match the first 48 bits', () => {
+    for (const fixture of fixtures) {
+      expect(parseInt(fixture.uuid.replace(/-/g, '').substring(0, 12), 16)).toBe(fixture.timestamp);
+    }
+  });
+});
+
+describe('fromUlid', () => {
+  test('keeps the timestamp of the ULID spec example', () => {
+    expect(parse(fromUlid(ulid, 1)).timestamp).toBe(1_469_918_176_385);
+  });
+
+  test('keeps the randomness', () => {
+    expect(fromUlid(ulid, 1).substring(16)).toBe(ulid.substring(10).toLowerCase());
+  });
+
+  test('accepts either case', () => {
+    expect(fromUlid(ulid.toLowerCase(), 1)).toBe(fromUlid(ulid, 1));
+  });
+
+  test('is deterministic', () => {
+    expect(fromUlid(ulid, 42)).toBe(fromUlid(ulid, 42));
+  });
+
+  test('preserves ULID order within a partition', () => {
+    const ulids = ['01ARYZ6S41TSV4RRFFQ69G5FAV', '01ARYZ6S41TSV4RRFFQ69G5FAW', '01ARYZ6S420000000000000000', '7ZZZZZZZZZZZZZZZZZZZZZZZZZ'];
+    const pfids = ulids.map((value) => fromUlid(value, 5));
+
+    expect([...pfids].sort()).toEqual(pfids);
+  });
+
+  test('throws error for invalid ULIDs', () => {
+    for (const value of ['', ulid.substring(1), ulid + '0', '8' + ulid.substring(1), ulid.replace('S', 'U'), 123]) {
+      expect(() => fromUlid(value as any, 1)).toThrow(expect.objectContaining({ code: 'invalid_ulid' }));
+    }
+    expect(() => fromUlid('invalid', 1)).toThrow('invalid ULID: "invalid"');
+  });
+
+  test('throws error for invalid partitions', () => {
+    expect(() => fromUlid(ulid, -1)).toThrow(expect.objectContaining({ code: 'invalid_partition' }));
+  });
+});
+
+describe('fromUuidV7', () => {
+  test('keeps the timestamp of the RFC 9562 example', () => {
+    expect(parse(fromUuidV7(uuid, 1)).timestamp).toBe(1_645_557_742_000);
+  });
+
+  test('accepts either case', () => {
+    expect(fromUuidV7(uuid.toUpperCase(), 1)).toBe(fromUuidV7(uuid, 1));
+  });
+
+  test('fills the last 6 bits of randomness with zeros', () => {
+    expect(parse(fromUuidV7('ffffffff-ffff-7fff-bfff-ffffffffffff', 0)).randomness).toEqual(
+      new Uint8Array([0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xc0]),
+    );
+  });
+
+  test('throws error for invalid UUIDs', () => {
+    const invalid = [
+      '',
+      uuid.replace(/-/g, ''),
+      '017f22e2-79b0-4cc3-98c4-dc0c0c07398f', // version 4
+      '017f22e2-79b0-7cc3-c8c4-dc0c0c07398f', // wrong variant
+      '017f22e2-79b0-7cc3-98c4-dc0c0c07398', // too short
+      '017f22e2-79b0-7cc3-98c4-dc0c0c07398g',
+      null,
+    ];
+    for (const value of invalid) {
+      expect(() => fromUuidV7(value as any, 1)).toThrow(expect.objectContaining({ code: 'invalid_uuid' }));
+    }
+  });
+
+  test('throws error for invalid partitions', () => {
+    expect(() => fromUuidV7(uuid, 1073741824)).toThrow(expect.objectContaining({ code: 'invalid_partition' }));
+  });
+});
+
+describe('toUlid and toUuidV7', () => {
+  test('drop the partition', () => {
+    expect(toUlid(fromUlid(ulid, 1))).toBe(toUlid(fromUlid(ulid, 2)));
+    expect(toUuidV7(fromUuidV7(uuid, 1))).toBe(toUuidV7(fromUuidV7(uuid, 2)));
+  });
+
+  test('round-trip through fromUlid losslessly', () => {
+    for (let i = 0; i < 100; i++) {
+      const pfid = generate(i * 1000);
+      expect(fromUlid(toUlid(pfid), i * 1000)).toBe(pfid);
+    }
+  });
+
+  test('round-trip through fromUuidV7 all but the last 6 bits', () => {
+    const pfid = generate(7);
+    const original = parse(pfid);
+    const roundTripped = parse(fromUuidV7(toUuidV7(pfid), 7));
+
+    expect(roundTripped.timestamp).toBe(original.timestamp);
+    expect(roundTripped.randomness.subarray(0, 9)).toEqual(original.randomness.subarray(0, 9));
+    expect(roundTripped.randomness[9]).toBe(original.randomness[9] & 0xc0);
+  });
+
+  test('produce valid version 7 UUIDs', () => {
+    expect(toUuidV7(generate(1))).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+  });
+
+  test('accept uppercase PFIDs', () => {
+    const pfid = fromUlid(ulid, 1);
+
+    expect(toUlid(pfid.toUpperCase())).toBe(ulid);
+  });
+
+  test('throw error for invalid PFIDs', () => {
+    expect(() => toUlid('invalid')).toThrow(PfidError);
+    expect(() => toUuidV7('invalid')).toThrow(expect.objectContaining({ code: 'invalid_pfid' }));
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, test, expect } from 'vitest';
+import {
+  parse,
+  compose,
+  composeBinary,
+  decode,
+  generateWithTimestamp,
+  PfidError,
+} from '../src';
+
+const randomness = new Uint8Array(Buffer.from('0123456789abcdef0123', 'hex'));
+
+describe('parse', () => {
+  test('parses a PFID string into its parts', () => {
+    const pfid = generateWithTimestamp(123_456_789, 1_234_567_890_000);
+    const parsed = parse(pfid);
+
+    expect(parsed.timestamp).toBe(1_234_567_890_000);
+    expect(parsed.date).toEqual(new Date(1_234_567_890_000));
+    expect(parsed.partition).toBe(123_456_789);
+    expect(parsed.randomness).toEqual(decode(pfid).subarray(10));
+  });
+
+  test('parses a binary PFID into its parts', () => {
+    const binary = composeBinary({ timestamp: 1_234_567_890_000, partition: 42, randomness });
+    const parsed = parse(binary);
+
+    expect(parsed.timestamp).toBe(1_234_567_890_000);
+    expect(parsed.partition).toBe(42);
+    expect(parsed.randomness).toEqual(randomness);
+  });
+
+  test('returns randomness that does not alias the binary', () => {
+    const binary = composeBinary({ timestamp: 0, partition: 0, randomness });
+    parse(binary).randomness.fill(0);
+
+    expect(binary.subarray(10)).toEqual(randomness);
+  });
+
+  test('throws error for invalid PFID', () => {
+    expect(() => parse('invalid')).toThrow(PfidError);
+    expect(() => parse('invalid')).toThrow(/invalid PFID/);
+  });
+
+  test('throws error for invalid binary', () => {
+    expect(() => parse(Buffer.from([1, 2, 3]))).toThrow(/invalid binary/);
+    expect(() => parse(123 as any)).toThrow(PfidError);
+  });
+
+  test('throws error for non-canonical binary', () => {
+    const binary = composeBinary({ timestamp: 0, partition: 0, randomness });
+    binary[6] = 0x40;
+
+    expect(() => parse(binary)).toThrow(/non-canonical binary/);
+  });
+});
+
+describe('compose', () => {
+  test('composes a PFID from parts', () => {
+    const pfid = compose({ timestamp: 1_234_567_890_000, partition: 123_456_789, randomness });
+
+    expect(parse(pfid)).toEqual({
+      timestamp: 1_234_567_890_000,
+      date: new Date(1_234_567_890_000),
+      partition: 123_456_789,
+      randomness,
+    });
+  });
+
+  test('is deterministic', () => {
+    const parts = { timestamp: 1_000, partition: 1, randomness };
+
+    expect(compose(parts)).toBe(compose(parts));
+  });
+
+  test('throws error for invalid timestamp', () => {
+    expect(() => compose({ timestamp: -1, partition: 1, randomness })).toThrow(/invalid timestamp/);
+    expect(() => compose({ timestamp: 281_474_976_710_656, partition: 1, randomness })).toThrow(PfidError);
+  });
+
+  test('throws error for invalid partition', () => {
+    expect(() => compose({ timestamp: 0, partition: -1, randomness })).toThrow(/invalid partition/);
+    expect(() => compose({ timestamp: 0, partition: 1_073_741_824, randomness })).toThrow(PfidError);
+  });
+
+  test('throws error for invalid randomness', () => {
+    expect(() => compose({ timestamp: 0, partition: 0, randomness: Buffer.alloc(9) })).toThrow(/invalid randomness/);
+    expect(() => compose({ timestamp: 0, partition: 0, randomness: 'abc' as any })).toThrow(PfidError);
+  });
+
+  test('throws error when the parts are not an object', () => {
+    expect(() => compose(null as any)).toThrow(
+      expect.objectContaining({
+        code: 'invalid_parts',
+        message: 'expected { timestamp, partition, randomness }, got null',
+      }),
+    );
+    expect(() => composeBinary(42 as any)).toThrow(expect.objectContaining({ code: 'invalid_parts' }));
+  });
+});
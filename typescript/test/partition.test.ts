@@ -0,0 +1,85 @@
+import { describe, test, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { partitionFromKey, generate, extractPartition, PfidError } from '../src';
+import { sha256 } from '../src/sha256';
+
+const fixturesPath = join(__dirname, '..', '..', 'fixtures', 'partition_key_fixtures.csv');
+
+function hex(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('hex');
+}
+
+describe('partitionFromKey', () => {
+  test('matches the cross-language fixtures', () => {
+    const lines = readFileSync(fixturesPath, 'utf-8').split('\n').slice(1);
+
+    for (const line of lines) {
+      if (line.trim() === '') {
+        continue;
+      }
+      const [namespace, key, partitionStr] = line.replace(/\r$/, '').split(',');
+      expect(
+        partitionFromKey(key, { namespace }),
+        `partition for ${JSON.stringify(namespace)}/${JSON.stringify(key)}`
+      ).toBe(parseInt(partitionStr, 10));
+    }
+  });
+
+  test('is stable and in range', () => {
+    const partition = partitionFromKey('acme');
+
+    expect(partitionFromKey('acme')).toBe(partition);
+    expect(partition).toBeGreaterThanOrEqual(0);
+    expect(partition).toBeLessThan(1_073_741_824);
+  });
+
+  test('separates namespaces', () => {
+    expect(partitionFromKey('acme', { namespace: 'tenant' })).not.toBe(partitionFromKey('acme'));
+    expect(partitionFromKey('acme', { namespace: 'tenant' })).not.toBe(
+      partitionFromKey('acme', { namespace: 'org' })
+    );
+  });
+
+  test('treats an empty namespace as no namespace', () => {
+    expect(partitionFromKey('acme', { namespace: '' })).toBe(partitionFromKey('acme'));
+  });
+
+  test('is accepted as a partition', () => {
+    const partition = partitionFromKey('acme');
+
+    expect(extractPartition(generate(partition))).toBe(partition);
+  });
+
+  test('throws error for non-string keys', () => {
+    expect(() => partitionFromKey(123 as any)).toThrow(PfidError);
+    expect(() => partitionFromKey('acme', { namespace: 1 as any })).toThrow(PfidError);
+  });
+
+  test('throws error for a NUL character, which would make the digest input ambiguous', () => {
+    expect(() => partitionFromKey('tenant\u0000acme')).toThrow(expect.objectContaining({ code: 'invalid_partition' }));
+    expect(() => partitionFromKey('acme', { namespace: 'ten\u0000ant' })).toThrow(
+      expect.objectContaining({ code: 'invalid_partition' })
+    );
+  });
+});
+
+describe('sha256', () => {
+  test('matches the FIPS 180-4 test vectors', () => {
+    expect(hex(sha256(new Uint8Array(0)))).toBe(
+      'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+    );
+    expect(hex(sha256(Buffer.from('abc')))).toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+    );
+    expect(hex(sha256(Buffer.from('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq')))).toBe(
+      '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1'
+    );
+  });
+
+  test('handles messages spanning several blocks', () => {
+    expect(hex(sha256(Buffer.from('a'.repeat(1_000))))).toBe(
+      '41edece42d63e8d9bf515a9ba6932e1c20cbc9f5a5d134645adb5db1b9737ea3'
+    );
+  });
+});
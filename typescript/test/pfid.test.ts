@@ -1,4 +1,5 @@
 import { describe, test, expect } from 'vitest';
+import * as fc from 'fast-check';
 import {
   zero,
   generate,
@@ -11,10 +12,25 @@ import {
   isPfid,
   encode,
   decode,
+  encodeMany,
+  canonicalize,
+  decodeInto,
   extractPartition,
   generatePartition,
+  normalize,
   PfidError,
 } from '../src';
+import {
+  arbitraryBinaryPfid,
+  arbitraryInvalidPfid,
+  arbitraryPartition,
+  arbitraryPfid,
+  arbitraryTimestamp,
+} from '../src/testing';
+
+const example = '01an4z07byd9df0k79ka1307sr9x4mv3';
+// The example as a human might type it: uppercase, aliases for 0 and 1, separators
+const typed = 'OLAN4Z07BY-D9DF0K-79KA I307SR9X4MV3';
 
 describe('zero', () => {
   test('returns a zero PFID', () => {
@@ -24,11 +40,18 @@ describe('zero', () => {
 
 describe('generate', () => {
   test('generates a valid PFID with partition', () => {
-    const partition = 123_456_789;
-    const pfid = generate(partition);
+    const before = Date.now();
+    const pfid = generate(123_456_789);
 
-    expect(isPfid(pfid)).toBe(true);
-    expect(extractPartition(pfid)).toBe(partition);
+    expect(pfid).toBeValidPfid();
+    expect(pfid).toHavePartition(123_456_789);
+    expect(pfid).toBeCreatedBetween(before, Date.now());
+  });
+
+  test('generates a valid PFID in any partition', () => {
+    fc.assert(fc.property(arbitraryPartition(), (partition) => {
+      expect(generate(partition)).toHavePartition(partition);
+    }));
   });
 
   test('generates unique PFIDs', () => {
@@ -37,29 +60,31 @@ describe('generate', () => {
     const pfid2 = generate(partition);
 
     expect(pfid1).not.toBe(pfid2);
-    expect(isPfid(pfid1)).toBe(true);
-    expect(isPfid(pfid2)).toBe(true);
+    expect(pfid1).toBeValidPfid();
+    expect(pfid2).toBeValidPfid();
   });
 
   test('throws on invalid partition', () => {
-    expect(() => generate(-1)).toThrow();
-    expect(() => generate(1_073_741_824)).toThrow();
+    expect(() => generate(-1)).toThrow(expect.objectContaining({ code: 'invalid_partition' }));
+    expect(() => generate(1_073_741_824)).toThrow(PfidError);
+    expect(() => generate(1_073_741_824)).toThrow('invalid partition: 1073741824');
   });
 });
 
 describe('generateWithTimestamp', () => {
   test('generates a PFID with partition and timestamp', () => {
-    const partition = 123_456_789;
-    const timestamp = 1_234_567_890_000;
-    const pfid = generateWithTimestamp(partition, timestamp);
+    fc.assert(fc.property(arbitraryPartition(), arbitraryTimestamp(), (partition, timestamp) => {
+      const pfid = generateWithTimestamp(partition, timestamp);
 
-    expect(isPfid(pfid)).toBe(true);
-    expect(extractPartition(pfid)).toBe(partition);
+      expect(pfid).toBeValidPfid();
+      expect(pfid).toHavePartition(partition);
+      expect(pfid).toBeCreatedBetween(timestamp, timestamp);
+    }));
   });
 
   test('throws on invalid timestamp', () => {
-    expect(() => generateWithTimestamp(1, -1)).toThrow();
-    expect(() => generateWithTimestamp(1, 281_474_976_710_656)).toThrow();
+    expect(() => generateWithTimestamp(1, -1)).toThrow(expect.objectContaining({ code: 'invalid_timestamp' }));
+    expect(() => generateWithTimestamp(1, 281_474_976_710_656)).toThrow(PfidError);
   });
 });
 
@@ -67,20 +92,20 @@ describe('generateExample', () => {
   test('generates an example PFID', () => {
     const pfid = generateExample();
 
-    expect(isPfid(pfid)).toBe(true);
-    expect(extractPartition(pfid)).toBe(123_456_789);
+    expect(pfid).toBeValidPfid();
+    expect(pfid).toHavePartition(123_456_789);
+    expect(pfid).toBeCreatedBetween(1_234_567_890_000, 1_234_567_890_000);
   });
 });
 
 describe('generateRelated', () => {
   test('generates a PFID with the same partition', () => {
-    const originalPfid = generate(123_456_789);
-    const relatedPfid = generateRelated(originalPfid);
+    fc.assert(fc.property(arbitraryPfid(), (originalPfid) => {
+      const relatedPfid = generateRelated(originalPfid);
 
-    expect(isPfid(relatedPfid)).toBe(true);
-    expect(extractPartition(relatedPfid)).toBe(
-      extractPartition(originalPfid)
-    );
+      expect(relatedPfid).toBeValidPfid();
+      expect(relatedPfid).toHavePartition(extractPartition(originalPfid));
+    }));
   });
 });
 
@@ -88,7 +113,7 @@ describe('generateRoot', () => {
   test('generates a PFID with random partition', () => {
     const pfid = generateRoot();
 
-    expect(isPfid(pfid)).toBe(true);
+    expect(pfid).toBeValidPfid();
     const partition = extractPartition(pfid);
     expect(partition).toBeGreaterThanOrEqual(0);
     expect(partition).toBeLessThan(1_073_741_824);
@@ -101,8 +126,8 @@ describe('generateBinary', () => {
     const binary = generateBinary(partition);
 
     expect(binary.length).toBe(20);
-    const encoded = encode(binary);
-    expect(isPfid(encoded)).toBe(true);
+    expect(binary).toHavePartition(partition);
+    expect(encode(binary)).toBeValidPfid();
   });
 });
 
@@ -113,15 +138,19 @@ describe('generateBinaryWithTimestamp', () => {
     const binary = generateBinaryWithTimestamp(partition, timestamp);
 
     expect(binary.length).toBe(20);
-    const encoded = encode(binary);
-    expect(isPfid(encoded)).toBe(true);
+    expect(binary).toHavePartition(partition);
+    expect(binary).toBeCreatedBetween(timestamp, timestamp);
+    expect(encode(binary)).toBeValidPfid();
   });
 });
 
 describe('isPfid', () => {
   test('returns true for valid PFID', () => {
-    const pfid = generate(1);
-    expect(isPfid(pfid)).toBe(true);
+    fc.assert(fc.property(arbitraryPfid(), (pfid) => isPfid(pfid)));
+  });
+
+  test('returns false for near-miss strings', () => {
+    fc.assert(fc.property(arbitraryInvalidPfid(), (text) => !isPfid(text)));
   });
 
   test('returns false for invalid strings', () => {
@@ -142,14 +171,35 @@ describe('isPfid', () => {
   });
 });
 
+describe('isPfid lenient mode', () => {
+  test('accepts human-entered PFIDs', () => {
+    expect(isPfid(typed, { mode: 'lenient' })).toBe(true);
+    expect(isPfid(example.toUpperCase(), { mode: 'lenient' })).toBe(true);
+  });
+
+  test('strict mode rejects them', () => {
+    expect(isPfid(typed)).toBe(false);
+    expect(isPfid(typed, { mode: 'strict' })).toBe(false);
+    expect(isPfid(example.toUpperCase())).toBe(false);
+  });
+
+  test('still rejects invalid PFIDs', () => {
+    expect(isPfid('invalid', { mode: 'lenient' })).toBe(false);
+    expect(isPfid('9' + '0'.repeat(31), { mode: 'lenient' })).toBe(false);
+    expect(isPfid('u'.repeat(32), { mode: 'lenient' })).toBe(false);
+    expect(isPfid(123, { mode: 'lenient' })).toBe(false);
+  });
+});
+
 describe('encode', () => {
   test('encodes a valid binary', () => {
-    const partition = 123_456_789;
-    const binary = generateBinary(partition);
-    const encoded = encode(binary);
+    fc.assert(fc.property(arbitraryPartition(), arbitraryTimestamp(), (partition, timestamp) => {
+      const binary = generateBinaryWithTimestamp(partition, timestamp);
+      const encoded = encode(binary);
 
-    expect(isPfid(encoded)).toBe(true);
-    expect(extractPartition(encoded)).toBe(partition);
+      expect(encoded).toBeValidPfid();
+      expect(encoded).toHavePartition(partition);
+    }));
   });
 
   test('throws error for invalid binary size', () => {
@@ -161,6 +211,41 @@ describe('encode', () => {
     expect(() => encode('not binary' as any)).toThrow(PfidError);
     expect(() => encode(123 as any)).toThrow(PfidError);
   });
+
+  test('throws non_canonical_binary when a padding bit is set', () => {
+    for (const bit of [0x40, 0x80]) {
+      const binary = generateBinary(123_456_789);
+      binary[6] |= bit;
+
+      expect(() => encode(binary)).toThrow(/non-canonical binary/);
+      expect(() => encode(binary)).toThrow(expect.objectContaining({ code: 'non_canonical_binary', position: 48 }));
+    }
+  });
+});
+
+describe('canonicalize', () => {
+  test('clears the padding bits in a copy', () => {
+    const binary = generateBinary(123_456_789);
+    const padded = new Uint8Array(binary);
+    padded[6] |= 0xc0;
+    const canonical = canonicalize(padded);
+
+    expect(canonical).toEqual(binary);
+    expect(padded[6] & 0xc0).toBe(0xc0);
+    expect(decode(encode(canonical))).toEqual(canonical);
+  });
+
+  test('returns canonical binaries unchanged', () => {
+    const binary = generateBinary(1);
+
+    expect(canonicalize(binary)).toEqual(binary);
+    expect(canonicalize(binary)).not.toBe(binary);
+  });
+
+  test('throws error for invalid binary', () => {
+    expect(() => canonicalize(new Uint8Array(19))).toThrow(/invalid binary/);
+    expect(() => canonicalize('not binary' as any)).toThrow(PfidError);
+  });
 });
 
 describe('decode', () => {
@@ -174,6 +259,15 @@ describe('decode', () => {
     expect(encoded).toBe(pfid);
   });
 
+  test('throws error for near-miss PFIDs', () => {
+    // Other than uppercase ones, which decode accepts
+    const nearMisses = arbitraryInvalidPfid().filter((text) => !isPfid(text.toLowerCase()));
+
+    fc.assert(fc.property(nearMisses, (text) => {
+      expect(() => decode(text)).toThrow(PfidError);
+    }));
+  });
+
   test('throws error for invalid PFID', () => {
     expect(() => decode('invalid')).toThrow(PfidError);
     expect(() => decode('invalid')).toThrow(/invalid PFID/);
@@ -185,13 +279,110 @@ describe('decode', () => {
   });
 });
 
+describe('decode lenient mode', () => {
+  test('decodes human-entered PFIDs', () => {
+    expect(decode(typed, { mode: 'lenient' })).toEqual(decode(example));
+  });
+
+  test('strict mode rejects them', () => {
+    expect(() => decode(typed)).toThrow(PfidError);
+    expect(() => decode(typed, { mode: 'strict' })).toThrow(/invalid PFID/);
+  });
+
+  test('throws error for invalid PFID', () => {
+    expect(() => decode('invalid', { mode: 'lenient' })).toThrow(PfidError);
+  });
+});
+
+describe('encodeMany', () => {
+  test('encodes an array of binaries', () => {
+    const binaries = [generateBinary(1), generateBinary(2), generateBinary(3)];
+
+    expect(encodeMany(binaries)).toEqual(binaries.map((binary) => encode(binary)));
+  });
+
+  test('encodes packed binaries', () => {
+    const binaries = [generateBinary(1), generateBinary(2)];
+    const packed = new Uint8Array(40);
+    packed.set(binaries[0], 0);
+    packed.set(binaries[1], 20);
+
+    expect(encodeMany(packed)).toEqual(binaries.map((binary) => encode(binary)));
+  });
+
+  test('encodes an empty batch', () => {
+    expect(encodeMany([])).toEqual([]);
+    expect(encodeMany(new Uint8Array(0))).toEqual([]);
+  });
+
+  test('throws error for invalid binaries', () => {
+    expect(() => encodeMany([generateBinary(1), Buffer.from([1, 2, 3])])).toThrow(PfidError);
+    expect(() => encodeMany(new Uint8Array(30))).toThrow(/invalid binary/);
+    expect(() => encodeMany('not binaries' as any)).toThrow(PfidError);
+  });
+
+  test('throws non_canonical_binary for packed binaries with a padding bit set', () => {
+    const packed = new Uint8Array(40);
+    packed[26] = 0x80;
+
+    expect(() => encodeMany(packed)).toThrow(/non-canonical binary/);
+  });
+});
+
+describe('decodeInto', () => {
+  test('decodes PFIDs into a buffer at an offset', () => {
+    const pfids = [generate(1), generate(2)];
+    const target = new Uint8Array(45);
+
+    expect(decodeInto(pfids, target, 5)).toBe(40);
+    expect(target.subarray(0, 5)).toEqual(new Uint8Array(5));
+    expect(target.subarray(5, 25)).toEqual(decode(pfids[0]));
+    expect(target.subarray(25, 45)).toEqual(decode(pfids[1]));
+  });
+
+  test('round-trips through encodeMany', () => {
+    const pfids = Array.from({ length: 10 }, (_, i) => generate(i));
+    const target = new Uint8Array(200);
+    decodeInto(pfids, target);
+
+    expect(encodeMany(target)).toEqual(pfids);
+  });
+
+  test('throws error for invalid PFIDs', () => {
+    const target = new Uint8Array(40);
+
+    expect(() => decodeInto([generate(1), 'invalid'], target)).toThrow(PfidError);
+    expect(() => decodeInto(['9' + '0'.repeat(31)], target)).toThrow(/invalid PFID/);
+    expect(() => decodeInto(['0'.repeat(31) + 'u'], target)).toThrow(/invalid PFID/);
+  });
+
+  test('throws error when the target is too small', () => {
+    expect(() => decodeInto([generate(1), generate(2)], new Uint8Array(39))).toThrow(
+      expect.objectContaining({ code: 'invalid_target' }),
+    );
+    expect(() => decodeInto([generate(1)], new Uint8Array(20), 1)).toThrow(
+      'target too small: {"pfids":1,"bytes":20,"offset":1}',
+    );
+  });
+
+  test('throws error for an offset that is not a non-negative integer', () => {
+    expect(() => decodeInto([generate(1)], new Uint8Array(40), -1)).toThrow(
+      expect.objectContaining({ code: 'invalid_offset', message: 'invalid offset: -1' }),
+    );
+    expect(() => decodeInto([generate(1)], new Uint8Array(40), 0.5)).toThrow(
+      expect.objectContaining({ code: 'invalid_offset' }),
+    );
+    expect(() => decodeInto([generate(1)], new Uint8Array(40), NaN)).toThrow(
+      expect.objectContaining({ code: 'invalid_offset', message: 'invalid offset: NaN' }),
+    );
+  });
+});
+
 describe('extractPartition', () => {
   test('extracts partition from valid PFID', () => {
-    const partition = 123_456_789;
-    const pfid = generate(partition);
-    const extracted = extractPartition(pfid);
-
-    expect(extracted).toBe(partition);
+    fc.assert(fc.property(arbitraryPartition(), (partition) => {
+      expect(extractPartition(generate(partition))).toBe(partition);
+    }));
   });
 
   test('throws error for invalid PFID', () => {
@@ -200,6 +391,48 @@ describe('extractPartition', () => {
   });
 });
 
+describe('extractPartition lenient mode', () => {
+  test('extracts partition from human-entered PFIDs', () => {
+    expect(extractPartition(typed, { mode: 'lenient' })).toBe(extractPartition(example));
+  });
+
+  test('strict mode rejects them', () => {
+    expect(() => extractPartition(typed)).toThrow(PfidError);
+    expect(() => extractPartition(example.toUpperCase(), { mode: 'strict' })).toThrow(/invalid PFID/);
+  });
+});
+
+describe('normalize', () => {
+  test('returns the canonical form', () => {
+    expect(normalize(typed)).toBe(example);
+    expect(normalize(example)).toBe(example);
+    expect(normalize(`  ${example}\n`)).toBe(example);
+  });
+
+  test('throws error when the input is not a PFID', () => {
+    expect(() => normalize('invalid')).toThrow(PfidError);
+    expect(() => normalize(typed + '00')).toThrow(/invalid PFID/);
+    expect(() => normalize(123 as any)).toThrow(PfidError);
+  });
+
+  test('reports the issue at its position in the input', () => {
+    expect(() => normalize('OLAN4Z07BY-D9DF0K-79KA #307SR9X4MV3')).toThrow(
+      expect.objectContaining({
+        code: 'invalid_character',
+        reason: 'invalid_character',
+        position: 23,
+        message: 'invalid PFID: invalid character "#" at position 23: "OLAN4Z07BY-D9DF0K-79KA #307SR9X4MV3"',
+      }),
+    );
+    expect(() => normalize('9LAN4Z07BY-D9DF0K-79KA I307SR9X4MV3')).toThrow(
+      expect.objectContaining({ code: 'invalid_pfid', reason: 'timestamp_overflow', position: 0 }),
+    );
+    expect(() => normalize(`${typed}-00`)).toThrow(
+      expect.objectContaining({ code: 'invalid_pfid', reason: 'wrong_length' }),
+    );
+  });
+});
+
 describe('generatePartition', () => {
   test('generates a valid partition', () => {
     const partition = generatePartition();
@@ -222,35 +455,24 @@ describe('generatePartition', () => {
 
 describe('round-trip encoding/decoding', () => {
   test('encode and decode are inverse operations', () => {
-    const partition = 123_456_789;
-    const pfid = generate(partition);
-
-    const binary = decode(pfid);
-    const encoded = encode(binary);
-    expect(encoded).toBe(pfid);
+    fc.assert(fc.property(arbitraryPfid(), (pfid) => encode(decode(pfid)) === pfid));
   });
 
   test('binary encode and decode are inverse operations', () => {
-    const partition = 123_456_789;
-    const binary = generateBinary(partition);
-
-    const encoded = encode(binary);
-    const decoded = decode(encoded);
-    expect(decoded).toEqual(binary);
+    fc.assert(fc.property(arbitraryBinaryPfid(), (binary) => {
+      expect(decode(encode(binary))).toEqual(binary);
+    }));
   });
 });
 
 describe('partition consistency', () => {
   test('all generated PFIDs with same partition have same partition', () => {
-    const partition = 123_456_789;
-
-    const pfids: string[] = [];
-    for (let i = 0; i < 10; i++) {
-      pfids.push(generate(partition));
-    }
-
-    const partitions = pfids.map((pfid) => extractPartition(pfid));
+    fc.assert(fc.property(arbitraryPartition(), (partition) => {
+      const pfids = Array.from({ length: 10 }, () => generate(partition));
 
-    expect(partitions.every((p) => p === partition)).toBe(true);
+      for (const pfid of pfids) {
+        expect(pfid).toHavePartition(partition);
+      }
+    }));
   });
 });
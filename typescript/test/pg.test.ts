@@ -0,0 +1,81 @@
+import { describe, test, expect } from 'vitest';
+import { Result, types } from 'pg';
+import { decode, generate, PfidError, rangeForBinary, toHex } from '../src';
+import { parsePfid, pfidBetween, pfidTypes, serializePfid } from '../src/pg';
+
+const example = '01an4z07byd9df0k79ka1307sr9x4mv3';
+const BYTEA = 17;
+const INT4 = 23;
+
+// `bytea` in Postgres' text output
+function byteaText(pfid: string): string {
+  return `\\x${toHex(decode(pfid))}`;
+}
+
+describe('parsePfid', () => {
+  test('reads a bytea in hex format', () => {
+    expect(parsePfid(byteaText(example))).toBe(example);
+  });
+
+  test('reads a bytea in escape format', () => {
+    const escaped = Array.from(decode(example), (byte) => `\\${byte.toString(8).padStart(3, '0')}`).join('');
+
+    expect(parsePfid(escaped)).toBe(example);
+  });
+
+  test('throws on a bytea that is not a PFID', () => {
+    expect(() => parsePfid('\\x0102')).toThrow(PfidError);
+    expect(() => parsePfid('\\x0102')).toThrow(expect.objectContaining({ code: 'invalid_binary' }));
+  });
+});
+
+describe('serializePfid', () => {
+  test('turns a PFID into a binary parameter', () => {
+    expect(serializePfid(example)).toEqual(decode(example));
+  });
+
+  test('throws on an invalid PFID', () => {
+    expect(() => serializePfid('invalid')).toThrow(PfidError);
+  });
+});
+
+describe('pfidTypes', () => {
+  test('parses bytea as PFID strings, in either format', () => {
+    expect(pfidTypes.getTypeParser(BYTEA, 'text')(byteaText(example))).toBe(example);
+    expect(pfidTypes.getTypeParser(BYTEA, 'binary')(Buffer.from(decode(example)))).toBe(example);
+  });
+
+  test('parses other types as pg does', () => {
+    expect(pfidTypes.getTypeParser(INT4, 'text')('42')).toBe(42);
+    expect(pfidTypes.getTypeParser(INT4, 'text')).toBe(types.getTypeParser(INT4, 'text'));
+  });
+
+  test('is used for rows', () => {
+    const pfid = generate(123_456_789);
+    const result = new Result('', pfidTypes as typeof types) as any;
+    result.addFields([
+      { name: 'id', dataTypeID: BYTEA, format: 'text' },
+      { name: 'quantity', dataTypeID: INT4, format: 'text' },
+    ]);
+
+    expect(result.parseRow([byteaText(pfid), '3'])).toEqual({ id: pfid, quantity: 3 });
+  });
+});
+
+describe('pfidBetween', () => {
+  test('returns the bounds of the range as parameters', () => {
+    const { lower, upper } = rangeForBinary(1_000, 2_000);
+
+    expect(pfidBetween(1_000, 2_000)).toEqual([lower, upper]);
+  });
+
+  test('narrows the bounds to a partition', () => {
+    const { lower, upper } = rangeForBinary(1_000, 2_000, 42);
+
+    expect(pfidBetween(1_000, 2_000, 42)).toEqual([lower, upper]);
+  });
+
+  test('throws when the start is after the end', () => {
+    expect(() => pfidBetween(2_000, 1_000)).toThrow(expect.objectContaining({ code: 'invalid_timestamp' }));
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, test, expect } from 'vitest';
+import {
+  extractPartition,
+  generatePrefixed,
+  generateWithTimestamp,
+  isPfid,
+  isPrefixedPfid,
+  parsePrefixed,
+  PfidError,
+  registerPrefix,
+} from '../src';
+
+const example = '01an4z07byd9df0k79ka1307sr9x4mv3';
+
+registerPrefix('ord', { partitionRange: [100, 199] });
+registerPrefix('usr');
+
+describe('registerPrefix', () => {
+  test('rejects invalid prefixes', () => {
+    for (const prefix of ['', 'Ord', '1ord', 'or_d', 'or-d', 'a'.repeat(17), 123]) {
+      expect(() => registerPrefix(prefix as any)).toThrow(expect.objectContaining({ code: 'invalid_prefix' }));
+    }
+  });
+
+  test('accepts prefixes up to 16 characters', () => {
+    expect(() => registerPrefix('a'.repeat(16))).not.toThrow();
+    expect(() => registerPrefix('v2')).not.toThrow();
+  });
+
+  test('rejects invalid partition ranges', () => {
+    for (const partitionRange of [[5, 4], [-1, 10], [0, 1073741824], [0.5, 1], 'abc']) {
+      expect(() => registerPrefix('bad', { partitionRange: partitionRange as any })).toThrow(
+        expect.objectContaining({ code: 'invalid_partition' }),
+      );
+    }
+    expect(isPrefixedPfid(`bad_${example}`)).toBe(false);
+  });
+
+  test('registering again replaces the options', () => {
+    registerPrefix('inv', { partitionRange: [0, 0] });
+    expect(() => generatePrefixed('inv', 1)).toThrow(PfidError);
+
+    registerPrefix('inv');
+    expect(isPrefixedPfid(generatePrefixed('inv', 1), 'inv')).toBe(true);
+  });
+
+  test('copies the partition range', () => {
+    const partitionRange: [number, number] = [0, 0];
+    registerPrefix('cpy', { partitionRange });
+    partitionRange[1] = 10;
+
+    expect(() => generatePrefixed('cpy', 1)).toThrow(PfidError);
+  });
+});
+
+describe('generatePrefixed', () => {
+  test('generates a prefixed PFID', () => {
+    const id = generatePrefixed('usr', 123_456_789);
+    const [prefix, pfid] = id.split('_');
+
+    expect(prefix).toBe('usr');
+    expect(isPfid(pfid)).toBe(true);
+    expect(extractPartition(pfid)).toBe(123_456_789);
+  });
+
+  test('enforces the partition range', () => {
+    expect(extractPartition(parsePrefixed(generatePrefixed('ord', 100)).pfid)).toBe(100);
+    expect(extractPartition(parsePrefixed(generatePrefixed('ord', 199)).pfid)).toBe(199);
+    expect(() => generatePrefixed('ord', 99)).toThrow(expect.objectContaining({ code: 'invalid_partition' }));
+    expect(() => generatePrefixed('ord', 200)).toThrow(/invalid partition: .*"prefix":"ord"/);
+  });
+
+  test('throws error for unknown prefixes', () => {
+    expect(() => generatePrefixed('xyz', 1)).toThrow(expect.objectContaining({ code: 'unknown_prefix' }));
+    expect(() => generatePrefixed('xyz', 1)).toThrow('unknown prefix: "xyz"');
+  });
+
+  test('throws error for invalid partitions', () => {
+    expect(() => generatePrefixed('usr', -1)).toThrow(expect.objectContaining({ code: 'invalid_partition' }));
+    expect(() => generatePrefixed('usr', 1073741824)).toThrow(PfidError);
+  });
+});
+
+describe('parsePrefixed', () => {
+  test('splits a prefixed PFID', () => {
+    expect(parsePrefixed(`usr_${example}`)).toEqual({ prefix: 'usr', pfid: example });
+  });
+
+  test('returns the PFID in canonical form', () => {
+    expect(parsePrefixed(`usr_${example.toUpperCase()}`)).toEqual({ prefix: 'usr', pfid: example });
+  });
+
+  test('enforces the partition range', () => {
+    const inRange = generateWithTimestamp(150, 1_234_567_890_000);
+    const outOfRange = generateWithTimestamp(200, 1_234_567_890_000);
+
+    expect(parsePrefixed(`ord_${inRange}`).pfid).toBe(inRange);
+    expect(() => parsePrefixed(`ord_${outOfRange}`)).toThrow(expect.objectContaining({ code: 'invalid_partition' }));
+  });
+
+  test('throws error for unknown prefixes', () => {
+    expect(() => parsePrefixed(`xyz_${example}`)).toThrow(expect.objectContaining({ code: 'unknown_prefix' }));
+    expect(() => parsePrefixed(`USR_${example}`)).toThrow(expect.objectContaining({ code: 'unknown_prefix' }));
+    expect(() => parsePrefixed(`_${example}`)).toThrow(expect.objectContaining({ code: 'unknown_prefix' }));
+  });
+
+  test('throws error for an invalid body', () => {
+    expect(() => parsePrefixed('usr_invalid')).toThrow(expect.objectContaining({ code: 'invalid_pfid' }));
+    expect(() => parsePrefixed(`usr_8${example.slice(1)}`)).toThrow(
+      expect.objectContaining({ reason: 'timestamp_overflow' }),
+    );
+    expect(() => parsePrefixed(`usr_${example}_`)).toThrow(PfidError);
+    expect(() => parsePrefixed(`usr__${example}`)).toThrow(PfidError);
+  });
+
+  test('throws error without a prefix', () => {
+    expect(() => parsePrefixed(example)).toThrow(expect.objectContaining({ code: 'invalid_pfid' }));
+    expect(() => parsePrefixed(null as any)).toThrow(PfidError);
+  });
+});
+
+describe('isPrefixedPfid', () => {
+  test('checks a prefixed PFID', () => {
+    expect(isPrefixedPfid(`usr_${example}`)).toBe(true);
+    expect(isPrefixedPfid(`usr_${example}`, 'usr')).toBe(true);
+    expect(isPrefixedPfid(`usr_${example}`, 'ord')).toBe(false);
+  });
+
+  test('rejects invalid values', () => {
+    expect(isPrefixedPfid(example)).toBe(false);
+    expect(isPrefixedPfid(`xyz_${example}`)).toBe(false);
+    expect(isPrefixedPfid('usr_invalid')).toBe(false);
+    expect(isPrefixedPfid(`ord_${generateWithTimestamp(0, 0)}`)).toBe(false);
+    expect(isPrefixedPfid(123)).toBe(false);
+    expect(isPrefixedPfid(undefined)).toBe(false);
+  });
+});
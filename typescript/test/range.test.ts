@@ -0,0 +1,99 @@
+import { describe, test, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  lowerBound,
+  upperBound,
+  lowerBoundBinary,
+  upperBoundBinary,
+  rangeFor,
+  rangeForBinary,
+  decode,
+  generateWithTimestamp,
+  PfidError,
+} from '../src';
+
+const fixturesPath = join(__dirname, '..', '..', 'fixtures', 'pfid_fixtures.csv');
+
+function readFixtures(): { timestamp: number; partition: number; pfid: string }[] {
+  return readFileSync(fixturesPath, 'utf-8')
+    .split('\n')
+    .slice(1)
+    .filter((line) => line.trim() !== '')
+    .map((line) => {
+      const [timestamp, partition, , pfid] = line.trim().split(',');
+      return { timestamp: parseInt(timestamp, 10), partition: parseInt(partition, 10), pfid };
+    });
+}
+
+describe('lowerBound / upperBound', () => {
+  test('match the fixture extremes', () => {
+    expect(lowerBound(0)).toBe('00000000000000000000000000000000');
+    expect(upperBound(0)).toBe('0000000000zzzzzzzzzzzzzzzzzzzzzz');
+    expect(lowerBound(0, 1_073_741_823)).toBe('0000000000zzzzzz0000000000000000');
+    expect(upperBound(0, 0)).toBe('0000000000000000zzzzzzzzzzzzzzzz');
+    expect(lowerBound(281_474_976_710_655)).toBe('7zzzzzzzzz0000000000000000000000');
+    expect(upperBound(281_474_976_710_655)).toBe('7zzzzzzzzzzzzzzzzzzzzzzzzzzzzzzz');
+    expect(lowerBound(281_474_976_710_655, 1_073_741_823)).toBe('7zzzzzzzzzzzzzzz0000000000000000');
+    expect(upperBound(281_474_976_710_655, 0)).toBe('7zzzzzzzzz000000zzzzzzzzzzzzzzzz');
+  });
+
+  test('contain every fixture at its timestamp and partition', () => {
+    for (const { timestamp, partition, pfid } of readFixtures()) {
+      expect(lowerBound(timestamp) <= pfid, pfid).toBe(true);
+      expect(upperBound(timestamp) >= pfid, pfid).toBe(true);
+      expect(lowerBound(timestamp, partition) <= pfid, pfid).toBe(true);
+      expect(upperBound(timestamp, partition) >= pfid, pfid).toBe(true);
+    }
+  });
+
+  test('binary bounds match string bounds', () => {
+    expect(lowerBoundBinary(1_234_567_890_000, 42)).toEqual(decode(lowerBound(1_234_567_890_000, 42)));
+    expect(upperBoundBinary(1_234_567_890_000, 42)).toEqual(decode(upperBound(1_234_567_890_000, 42)));
+  });
+
+  test('throw error for invalid timestamp or partition', () => {
+    expect(() => lowerBound(-1)).toThrow(PfidError);
+    expect(() => upperBound(281_474_976_710_656)).toThrow(/invalid timestamp/);
+    expect(() => lowerBound(0, 1_073_741_824)).toThrow(/invalid partition/);
+  });
+});
+
+describe('rangeFor', () => {
+  test('contains PFIDs generated within the window', () => {
+    const { lower, upper } = rangeFor(1_000, 2_000);
+
+    for (const timestamp of [1_000, 1_500, 2_000]) {
+      const pfid = generateWithTimestamp(123_456_789, timestamp);
+      expect(lower <= pfid && pfid <= upper).toBe(true);
+    }
+  });
+
+  test('excludes PFIDs generated outside the window', () => {
+    const { lower, upper } = rangeFor(1_000, 2_000);
+
+    expect(generateWithTimestamp(0, 999) < lower).toBe(true);
+    expect(generateWithTimestamp(0, 2_001) > upper).toBe(true);
+  });
+
+  test('narrows the bounds to a partition', () => {
+    const { lower, upper } = rangeFor(1_000, 2_000, 42);
+
+    expect(generateWithTimestamp(41, 1_000) < lower).toBe(true);
+    expect(generateWithTimestamp(42, 1_000) >= lower).toBe(true);
+    expect(generateWithTimestamp(42, 2_000) <= upper).toBe(true);
+    expect(generateWithTimestamp(43, 2_000) > upper).toBe(true);
+  });
+
+  test('returns binary bounds', () => {
+    const { lower, upper } = rangeForBinary(1_000, 2_000);
+
+    expect(lower).toEqual(lowerBoundBinary(1_000));
+    expect(upper).toEqual(upperBoundBinary(2_000));
+  });
+
+  test('throws error when start is after end', () => {
+    expect(() => rangeFor(2_000, 1_000)).toThrow(PfidError);
+    expect(() => rangeFor(2_000, 1_000)).toThrow(/invalid timestamp/);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, test, expect } from 'vitest';
+import { randomBytes } from 'crypto';
+import { canonicalize, decode, encode, encodeMany, isPfid, PfidError } from '../src';
+
+// Property tests: random samples across the whole 160-bit space, plus every single bit
+
+const RUNS = 10_000;
+const CHARS = '0123456789abcdefghjkmnpqrstvwxyz';
+
+function randomBinary(): Uint8Array {
+  return new Uint8Array(randomBytes(20));
+}
+
+function randomPfid(): string {
+  const bytes = randomBytes(32);
+  let pfid = CHARS[bytes[0] & 0x07];
+  for (let i = 1; i < 32; i++) {
+    pfid += CHARS[bytes[i] & 0x1f];
+  }
+  return pfid;
+}
+
+function isCanonical(binary: Uint8Array): boolean {
+  return (binary[6] & 0xc0) === 0;
+}
+
+describe('binary round trip', () => {
+  test('decode(encode(b)) equals b for every canonical binary', () => {
+    for (let run = 0; run < RUNS; run++) {
+      const binary = canonicalize(randomBinary());
+
+      expect(decode(encode(binary))).toEqual(binary);
+    }
+  });
+
+  test('encode rejects every non-canonical binary', () => {
+    for (let run = 0; run < RUNS; run++) {
+      const binary = randomBinary();
+      binary[6] |= 0x40 << (run & 1);
+
+      expect(() => encode(binary)).toThrow(PfidError);
+    }
+  });
+
+  test('encode accepts exactly the canonical binaries', () => {
+    for (let run = 0; run < RUNS; run++) {
+      const binary = randomBinary();
+
+      if (isCanonical(binary)) {
+        expect(decode(encode(binary))).toEqual(binary);
+      } else {
+        expect(() => encode(binary)).toThrow(/non-canonical binary/);
+      }
+    }
+  });
+
+  test('canonicalize is idempotent and only clears the padding bits', () => {
+    for (let run = 0; run < RUNS; run++) {
+      const binary = randomBinary();
+      const canonical = canonicalize(binary);
+
+      expect(isCanonical(canonical)).toBe(true);
+      expect(canonicalize(canonical)).toEqual(canonical);
+      expect(canonical[6]).toBe(binary[6] & 0x3f);
+      expect(canonical.subarray(0, 6)).toEqual(binary.subarray(0, 6));
+      expect(canonical.subarray(7)).toEqual(binary.subarray(7));
+    }
+  });
+
+  test('round-trips every single bit outside the padding', () => {
+    for (let bit = 0; bit < 160; bit++) {
+      const binary = new Uint8Array(20);
+      binary[bit >> 3] = 0x80 >> (bit & 7);
+
+      if (bit === 48 || bit === 49) {
+        expect(() => encode(binary)).toThrow(/non-canonical binary/);
+        expect(canonicalize(binary)).toEqual(new Uint8Array(20));
+      } else {
+        expect(decode(encode(binary))).toEqual(binary);
+      }
+    }
+  });
+
+  test('round-trips the smallest and largest binaries', () => {
+    const largest = canonicalize(new Uint8Array(20).fill(0xff));
+
+    expect(encode(new Uint8Array(20))).toBe('0'.repeat(32));
+    expect(encode(largest)).toBe('7' + 'z'.repeat(31));
+    expect(decode(encode(largest))).toEqual(largest);
+  });
+
+  test('encodeMany agrees with encode for packed binaries', () => {
+    const packed = new Uint8Array(20 * 100);
+    for (let i = 0; i < 100; i++) {
+      packed.set(canonicalize(randomBinary()), i * 20);
+    }
+
+    expect(encodeMany(packed)).toEqual(
+      Array.from({ length: 100 }, (_, i) => encode(packed.subarray(i * 20, i * 20 + 20))),
+    );
+  });
+});
+
+describe('string round trip', () => {
+  test('encode(decode(s)) equals s for every PFID', () => {
+    for (let run = 0; run < RUNS; run++) {
+      const pfid = randomPfid();
+
+      expect(isPfid(pfid)).toBe(true);
+      expect(encode(decode(pfid))).toBe(pfid);
+    }
+  });
+
+  test('decode always returns a canonical binary', () => {
+    for (let run = 0; run < RUNS; run++) {
+      expect(isCanonical(decode(randomPfid()))).toBe(true);
+    }
+  });
+});
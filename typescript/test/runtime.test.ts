@@ -0,0 +1,89 @@
+import { describe, test, expect, vi, beforeAll, afterAll } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+// Run the library without Node's `crypto` module or `Buffer` global, the way it
+// runs in browsers, Cloudflare Workers and Deno: only Uint8Array and Web Crypto.
+vi.mock('crypto', () => {
+  throw new Error('crypto is not available in this runtime');
+});
+vi.mock('node:crypto', () => {
+  throw new Error('node:crypto is not available in this runtime');
+});
+
+const fixturesPath = join(__dirname, '..', '..', 'fixtures', 'pfid_fixtures.csv');
+
+function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+type Library = typeof import('../src');
+let pfid: Library;
+
+beforeAll(async () => {
+  vi.stubGlobal('Buffer', undefined);
+  vi.resetModules();
+  pfid = await import('../src');
+});
+
+afterAll(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('non-Node runtime', () => {
+  test('all fixtures are valid', () => {
+    const lines = readFileSync(fixturesPath, 'utf-8').split('\n').slice(1);
+
+    for (const line of lines) {
+      if (line.trim() === '') {
+        continue;
+      }
+      const [timestampStr, partitionStr, randomnessHex, expectedPfid] = line.trim().split(',');
+      const timestamp = parseInt(timestampStr, 10);
+      const partition = parseInt(partitionStr, 10);
+      const randomness = fromHex(randomnessHex);
+
+      const binary = pfid.composeBinary({ timestamp, partition, randomness });
+      expect(pfid.encode(binary)).toBe(expectedPfid);
+      expect(pfid.decode(expectedPfid)).toEqual(binary);
+      expect(pfid.extractPartition(expectedPfid)).toBe(partition);
+      expect(pfid.parse(expectedPfid)).toEqual({ timestamp, date: new Date(timestamp), partition, randomness });
+    }
+  });
+
+  test('generates PFIDs using Web Crypto', () => {
+    const generated = pfid.generate(123_456_789);
+
+    expect(pfid.isPfid(generated)).toBe(true);
+    expect(pfid.extractPartition(generated)).toBe(123_456_789);
+    expect(pfid.generateRoot()).not.toBe(pfid.generateRoot());
+  });
+
+  test('seals PFIDs using Web Crypto', async () => {
+    const key = { id: 1, secret: new Uint8Array(16).fill(7) };
+    const generated = pfid.generate(123_456_789);
+
+    expect(await pfid.unseal(await pfid.seal(generated, key), key)).toBe(generated);
+  });
+
+  test('decodes to a plain Uint8Array', () => {
+    const binary = pfid.decode(pfid.generateExample());
+
+    expect(binary).toBeInstanceOf(Uint8Array);
+    expect(binary.constructor).toBe(Uint8Array);
+  });
+});
+
+describe('Buffer compatibility', () => {
+  test('accepts a Node Buffer as binary input', () => {
+    const binary = pfid.generateBinary(1);
+    const buffer = require('buffer').Buffer.from(binary);
+
+    expect(pfid.encode(buffer)).toBe(pfid.encode(binary));
+    expect(pfid.parse(buffer).partition).toBe(1);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, test, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { decode, decodeInto, encode, extractPartition, generate, generateWithTimestamp, PfidError, safe } from '../src';
+import { arbitraryInvalidPfid, arbitraryPfid } from '../src/testing';
+
+const example = '01an4z07byd9df0k79ka1307sr9x4mv3';
+
+// What a throwing function returns or throws, as a result
+function resultOf(fn: () => unknown): unknown {
+  try {
+    return { ok: true, value: fn() };
+  } catch (error) {
+    return { ok: false, error };
+  }
+}
+
+describe('safe', () => {
+  test('returns the value on success', () => {
+    expect(safe.decode(example)).toEqual({ ok: true, value: decode(example) });
+    expect(safe.extractPartition(example)).toEqual({ ok: true, value: 446_086_163 });
+    expect(safe.encode(decode(example))).toEqual({ ok: true, value: example });
+
+    const result = safe.generate(42);
+    expect(result.ok).toBe(true);
+    expect(result.ok && result.value).toHavePartition(42);
+  });
+
+  test('returns the error instead of throwing', () => {
+    const result = safe.decode('0'.repeat(31) + 'u');
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.error).toBeInstanceOf(PfidError);
+    expect(!result.ok && result.error).toMatchObject({
+      code: 'invalid_character',
+      reason: 'invalid_character',
+      position: 31,
+    });
+  });
+
+  test('returns the error the throwing function throws', () => {
+    const invalid = '9' + example.slice(1);
+
+    expect(safe.generate(-1)).toEqual(resultOf(() => generate(-1)));
+    expect(safe.generateWithTimestamp(1, -1)).toEqual(resultOf(() => generateWithTimestamp(1, -1)));
+    expect(safe.encode(new Uint8Array(3))).toEqual(resultOf(() => encode(new Uint8Array(3))));
+    expect(safe.decode(invalid)).toEqual(resultOf(() => decode(invalid)));
+    expect(safe.decode('invalid', { mode: 'lenient' })).toEqual(resultOf(() => decode('invalid', { mode: 'lenient' })));
+    expect(safe.decodeInto([example], new Uint8Array(19))).toEqual(
+      resultOf(() => decodeInto([example], new Uint8Array(19))),
+    );
+    expect(safe.extractPartition(invalid)).toEqual(resultOf(() => extractPartition(invalid)));
+  });
+
+  test('agrees with decode and extractPartition on any input', () => {
+    fc.assert(
+      fc.property(fc.oneof(arbitraryPfid(), arbitraryInvalidPfid(), fc.string()), (input) => {
+        expect(safe.decode(input)).toEqual(resultOf(() => decode(input)));
+        expect(safe.extractPartition(input)).toEqual(resultOf(() => extractPartition(input)));
+        expect(safe.extractPartition(input, { mode: 'lenient' })).toEqual(
+          resultOf(() => extractPartition(input, { mode: 'lenient' })),
+        );
+      }),
+    );
+  });
+
+  test('builds the error once, when first read', () => {
+    const result = safe.decode('invalid');
+
+    expect(!result.ok && result.error).toBe(!result.ok && result.error);
+  });
+
+  test('returns an error for parts that are not an object', () => {
+    expect(safe.compose(null as any)).toMatchObject({ ok: false, error: { code: 'invalid_parts' } });
+    expect(safe.composeBinary(undefined as any)).toMatchObject({ ok: false, error: { code: 'invalid_parts' } });
+  });
+
+  test('still throws errors that are not PfidErrors', () => {
+    const parts = {
+      timestamp: 1,
+      partition: 1,
+      get randomness(): Uint8Array {
+        throw new RangeError('a bug');
+      },
+    };
+
+    expect(() => safe.compose(parts)).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, test, expect } from 'vitest';
+import { seal, unseal, sealedKeyId, generate, generateWithTimestamp, isPfid, type SealingKey } from '../src';
+import { ff1Decrypt, ff1Encrypt, importAesKey } from '../src/ff1';
+
+const example = '01an4z07byd9df0k79ka1307sr9x4mv3';
+
+function hex(value: string): Uint8Array {
+  return new Uint8Array(Buffer.from(value, 'hex'));
+}
+
+const key1: SealingKey = { id: 1, secret: hex('000102030405060708090a0b0c0d0e0f') };
+const key2: SealingKey = { id: 2, secret: hex('00112233445566778899aabbccddeeff00112233445566778899aabbccddeeff') };
+
+describe('FF1', () => {
+  // NIST SP 800-38G samples 1-3 (AES-128)
+  const key = hex('2b7e151628aed2a6abf7158809cf4f3c');
+  const base36 = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+  test('matches the NIST radix 10 samples', async () => {
+    const aes = await importAesKey(key);
+    const digits = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+    expect((await ff1Encrypt(aes, new Uint8Array(0), 10, digits)).join('')).toBe('2433477484');
+    expect((await ff1Encrypt(aes, hex('39383736353433323130'), 10, digits)).join('')).toBe('6124200773');
+  });
+
+  test('matches the NIST radix 36 sample', async () => {
+    const aes = await importAesKey(key);
+    const tweak = hex('3737373770717273373737');
+    const digits = [...'0123456789abcdefghi'].map((char) => base36.indexOf(char));
+    const encrypted = await ff1Encrypt(aes, tweak, 36, digits);
+
+    expect(encrypted.map((digit) => base36[digit]).join('')).toBe('a9tv40mll9kdu509eum');
+    expect(await ff1Decrypt(aes, tweak, 36, encrypted)).toEqual(digits);
+  });
+});
+
+describe('seal', () => {
+  test('returns a 40 character token that is not a PFID', async () => {
+    const token = await seal(example, key1);
+
+    expect(token).toBe('1ykjpp1qtsff1dcr511g47htr3gdkg7ax6at7rwf');
+    expect(token).toHaveLength(40);
+    expect(isPfid(token)).toBe(false);
+  });
+
+  test('is deterministic per key', async () => {
+    expect(await seal(example, key1)).toBe(await seal(example, key1));
+    expect(await seal(example, key2)).not.toBe(await seal(example, key1));
+  });
+
+  test('stores the key ID in the first character', async () => {
+    expect(await seal(example, key1)).toMatch(/^1/);
+    expect(await seal(example, key2)).toMatch(/^2/);
+    expect(await seal(example, { id: 0, secret: key1.secret })).toMatch(/^0/);
+    expect(await seal(example, { id: 31, secret: key1.secret })).toMatch(/^z/);
+  });
+
+  test('hides the shared timestamp and partition of related PFIDs', async () => {
+    const first = await seal(generateWithTimestamp(42, 1_700_000_000_000), key1);
+    const second = await seal(generateWithTimestamp(42, 1_700_000_000_000), key1);
+
+    expect(first.substring(1, 16)).not.toBe(second.substring(1, 16));
+  });
+
+  test('throws invalid_pfid for invalid PFIDs', async () => {
+    await expect(seal('invalid', key1)).rejects.toMatchObject({ code: 'invalid_pfid' });
+    await expect(seal(example.toUpperCase(), key1)).rejects.toMatchObject({ code: 'invalid_pfid' });
+  });
+
+  test('throws invalid_key for invalid keys without revealing the secret', async () => {
+    await expect(seal(example, { id: -1, secret: key1.secret })).rejects.toMatchObject({ code: 'invalid_key' });
+    await expect(seal(example, { id: 32, secret: key1.secret })).rejects.toMatchObject({ code: 'invalid_key' });
+    await expect(seal(example, { id: 1.5, secret: key1.secret })).rejects.toMatchObject({ code: 'invalid_key' });
+    await expect(seal(example, undefined as any)).rejects.toMatchObject({ code: 'invalid_key' });
+
+    await expect(seal(example, { id: 1, secret: hex('deadbeefdeadbeef') })).rejects.toMatchObject({
+      code: 'invalid_key',
+      message: 'invalid key: {"id":1,"bytes":8}',
+    });
+  });
+});
+
+describe('unseal', () => {
+  test('recovers the PFID', async () => {
+    for (let i = 0; i < 50; i++) {
+      const pfid = generate(i);
+
+      expect(await unseal(await seal(pfid, key1), key1)).toBe(pfid);
+      expect(await unseal(await seal(pfid, key2), key2)).toBe(pfid);
+    }
+  });
+
+  test('recovers the smallest and largest PFIDs', async () => {
+    for (const pfid of ['0'.repeat(32), '7' + 'z'.repeat(31)]) {
+      expect(await unseal(await seal(pfid, key1), key1)).toBe(pfid);
+    }
+  });
+
+  test('accepts uppercase tokens', async () => {
+    expect(await unseal((await seal(example, key1)).toUpperCase(), key1)).toBe(example);
+  });
+
+  test('picks the key by ID during rotation', async () => {
+    const old = await seal(example, key1);
+    const current = await seal(example, key2);
+
+    expect(await unseal(old, [key2, key1])).toBe(example);
+    expect(await unseal(current, [key2, key1])).toBe(example);
+    expect(sealedKeyId(old)).toBe(1);
+    expect(sealedKeyId(current)).toBe(2);
+  });
+
+  test('throws wrong_key without a key for the token', async () => {
+    const token = await seal(example, key1);
+
+    await expect(unseal(token, key2)).rejects.toMatchObject({ code: 'wrong_key' });
+    await expect(unseal(token, [])).rejects.toMatchObject({ code: 'wrong_key' });
+  });
+
+  test('tries every key with the key ID of the token', async () => {
+    const reused: SealingKey = { id: 1, secret: key2.secret };
+    const old = await seal(example, key1);
+    const current = await seal(example, reused);
+
+    expect(await unseal(old, [reused, key1])).toBe(example);
+    expect(await unseal(current, [reused, key1])).toBe(example);
+  });
+
+  test('throws wrong_key when another key has the same ID', async () => {
+    const token = await seal(example, key1);
+
+    await expect(unseal(token, { id: 1, secret: key2.secret })).rejects.toMatchObject({ code: 'wrong_key' });
+  });
+
+  test('throws wrong_key for altered tokens', async () => {
+    const token = await seal(example, key1);
+    const altered = token.substring(0, 20) + (token[20] === '0' ? '1' : '0') + token.substring(21);
+
+    await expect(unseal(altered, key1)).rejects.toMatchObject({ code: 'wrong_key' });
+  });
+
+  test('throws invalid_token for malformed tokens and plain PFIDs', async () => {
+    await expect(unseal('invalid', key1)).rejects.toMatchObject({ code: 'invalid_token' });
+    await expect(unseal(example, key1)).rejects.toMatchObject({ code: 'invalid_token' });
+    await expect(unseal(example + '0000000', key1)).rejects.toMatchObject({ code: 'invalid_token' });
+    await expect(unseal('a'.repeat(39) + 'u', key1)).rejects.toMatchObject({ code: 'invalid_token' });
+    await expect(unseal(123 as any, key1)).rejects.toMatchObject({ code: 'invalid_token' });
+  });
+
+  test('throws invalid_key for invalid keys', async () => {
+    const token = await seal(example, key1);
+
+    await expect(unseal(token, [key1, { id: 2, secret: new Uint8Array(0) }])).rejects.toMatchObject({
+      code: 'invalid_key',
+    });
+  });
+});
@@ -0,0 +1,8 @@
+import { expect } from 'vitest';
+import { pfidMatchers, type PfidMatchers } from '../src/testing';
+
+expect.extend(pfidMatchers);
+
+declare module 'vitest' {
+  interface Matchers<T = any> extends PfidMatchers<T> {}
+}
@@ -0,0 +1,273 @@
+import { describe, test, expect } from 'vitest';
+import { decode, generate, PfidError, ShardMap, type ShardRange } from '../src';
+
+const MAX_PARTITION = 1_073_741_823;
+
+const ranges: ShardRange[] = [
+  { start: 0, end: 999, shard: 'a' },
+  { start: 1000, end: 499_999_999, shard: 'b' },
+  { start: 500_000_000, end: MAX_PARTITION, shard: 'a' },
+];
+
+function countBlocks(map: ShardMap): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let partition = 0; partition <= MAX_PARTITION; partition += 1 << 16) {
+    const shard = map.shardForPartition(partition);
+    counts.set(shard, (counts.get(shard) ?? 0) + 1);
+  }
+  return counts;
+}
+
+describe('ShardMap.range', () => {
+  test('routes partitions by range', () => {
+    const map = ShardMap.range(ranges);
+
+    expect(map.shardForPartition(0)).toBe('a');
+    expect(map.shardForPartition(999)).toBe('a');
+    expect(map.shardForPartition(1000)).toBe('b');
+    expect(map.shardForPartition(499_999_999)).toBe('b');
+    expect(map.shardForPartition(500_000_000)).toBe('a');
+    expect(map.shardForPartition(MAX_PARTITION)).toBe('a');
+    expect(map.shards).toEqual(['a', 'b']);
+  });
+
+  test('rejects ranges with gaps, overlaps or missing ends', () => {
+    const invalid: ShardRange[][] = [
+      [],
+      [{ start: 1, end: MAX_PARTITION, shard: 'a' }],
+      [{ start: 0, end: MAX_PARTITION - 1, shard: 'a' }],
+      [{ start: 0, end: MAX_PARTITION + 1, shard: 'a' }],
+      [
+        { start: 0, end: 10, shard: 'a' },
+        { start: 12, end: MAX_PARTITION, shard: 'b' },
+      ],
+      [
+        { start: 0, end: 10, shard: 'a' },
+        { start: 10, end: MAX_PARTITION, shard: 'b' },
+      ],
+      [
+        { start: 0, end: 10, shard: 'a' },
+        { start: 11, end: 5, shard: 'b' },
+      ],
+      [{ start: 0, end: MAX_PARTITION, shard: '' }],
+    ];
+
+    for (const value of invalid) {
+      expect(() => ShardMap.range(value)).toThrow(expect.objectContaining({ code: 'invalid_shard_map' }));
+    }
+    expect(() => ShardMap.range(null as any)).toThrow(PfidError);
+  });
+
+  test('copies the ranges', () => {
+    const copy = ranges.map((range) => ({ ...range }));
+    const map = ShardMap.range(copy);
+    copy[0].shard = 'z';
+
+    expect(map.shardForPartition(0)).toBe('a');
+  });
+});
+
+describe('ShardMap.evenRanges', () => {
+  test('splits the partition space evenly', () => {
+    const map = ShardMap.evenRanges(['a', 'b', 'c', 'd']);
+
+    expect(map.toJSON()).toEqual({
+      strategy: 'range',
+      ranges: [
+        { start: 0, end: 268_435_455, shard: 'a' },
+        { start: 268_435_456, end: 536_870_911, shard: 'b' },
+        { start: 536_870_912, end: 805_306_367, shard: 'c' },
+        { start: 805_306_368, end: MAX_PARTITION, shard: 'd' },
+      ],
+    });
+  });
+
+  test('covers every partition for any number of shards', () => {
+    for (const count of [1, 3, 7, 100]) {
+      const shards = Array.from({ length: count }, (_, i) => `shard-${i}`);
+      const map = ShardMap.evenRanges(shards);
+
+      expect(map.shardForPartition(0)).toBe('shard-0');
+      expect(map.shardForPartition(MAX_PARTITION)).toBe(`shard-${count - 1}`);
+      expect(map.shards).toEqual(shards);
+    }
+  });
+
+  test('rejects invalid shards', () => {
+    for (const shards of [[], ['a', 'a'], ['a', ''], [1]]) {
+      expect(() => ShardMap.evenRanges(shards as any)).toThrow(expect.objectContaining({ code: 'invalid_shard_map' }));
+    }
+  });
+});
+
+describe('ShardMap.jump', () => {
+  test('spreads partitions evenly', () => {
+    const counts = countBlocks(ShardMap.jump(['a', 'b', 'c', 'd', 'e']));
+
+    expect([...counts.keys()].sort()).toEqual(['a', 'b', 'c', 'd', 'e']);
+    for (const count of counts.values()) {
+      // 16,384 blocks over 5 shards
+      expect(count).toBeGreaterThan(3000);
+      expect(count).toBeLessThan(3550);
+    }
+  });
+
+  test('keeps blocks of 65,536 partitions together', () => {
+    const map = ShardMap.jump(['a', 'b', 'c']);
+
+    for (const block of [0, 1, 5000, 16383]) {
+      const start = block << 16;
+      expect(map.shardForPartition(start + 65535)).toBe(map.shardForPartition(start));
+    }
+  });
+
+  test('only moves partitions to an appended shard', () => {
+    const before = ShardMap.jump(['a', 'b', 'c']);
+    const after = ShardMap.jump(['a', 'b', 'c', 'd']);
+    const moves = before.plan(after);
+
+    expect(moves.length).toBeGreaterThan(0);
+    expect(moves.every((move) => move.to === 'd')).toBe(true);
+
+    const moved = moves.reduce((total, move) => total + move.end - move.start + 1, 0);
+    expect(moved / (MAX_PARTITION + 1)).toBeGreaterThan(0.2);
+    expect(moved / (MAX_PARTITION + 1)).toBeLessThan(0.3);
+  });
+
+  test('a single shard owns everything', () => {
+    const map = ShardMap.jump(['only']);
+
+    expect(map.shardForPartition(0)).toBe('only');
+    expect(map.shardForPartition(MAX_PARTITION)).toBe('only');
+  });
+
+  test('rejects invalid shards', () => {
+    expect(() => ShardMap.jump([])).toThrow(expect.objectContaining({ code: 'invalid_shard_map' }));
+    expect(() => ShardMap.jump(['a', 'a'])).toThrow(PfidError);
+  });
+});
+
+describe('shardFor', () => {
+  test('routes a PFID by its partition', () => {
+    const map = ShardMap.range(ranges);
+
+    expect(map.shardFor(generate(500))).toBe('a');
+    expect(map.shardFor(generate(1000))).toBe('b');
+  });
+
+  test('routes a binary PFID by its partition', () => {
+    const map = ShardMap.range(ranges);
+
+    expect(map.shardFor(decode(generate(1000)))).toBe('b');
+  });
+
+  test('throws error for invalid PFIDs', () => {
+    const map = ShardMap.range(ranges);
+    const nonCanonical = decode(generate(1000));
+    nonCanonical[6] |= 0x80;
+
+    expect(() => map.shardFor('invalid')).toThrow(expect.objectContaining({ code: 'invalid_pfid' }));
+    expect(() => map.shardFor(new Uint8Array(19))).toThrow(expect.objectContaining({ code: 'invalid_binary' }));
+    expect(() => map.shardFor(nonCanonical)).toThrow(expect.objectContaining({ code: 'non_canonical_binary' }));
+  });
+
+  test('shardForPartition throws error for invalid partitions', () => {
+    const map = ShardMap.jump(['a']);
+
+    for (const partition of [-1, MAX_PARTITION + 1, 1.5, NaN]) {
+      expect(() => map.shardForPartition(partition)).toThrow(expect.objectContaining({ code: 'invalid_partition' }));
+    }
+  });
+});
+
+describe('JSON', () => {
+  test('round-trips a range map', () => {
+    const map = ShardMap.range(ranges);
+    const copy = ShardMap.fromJSON(JSON.stringify(map));
+
+    expect(copy.toJSON()).toEqual({ strategy: 'range', ranges });
+    expect(map.plan(copy)).toEqual([]);
+  });
+
+  test('round-trips a jump map', () => {
+    const map = ShardMap.jump(['a', 'b', 'c']);
+    const copy = ShardMap.fromJSON(map.toJSON());
+
+    expect(JSON.stringify(copy)).toBe('{"strategy":"jump","shards":["a","b","c"]}');
+    expect(map.plan(copy)).toEqual([]);
+  });
+
+  test('rejects invalid JSON', () => {
+    for (const json of ['not json', '{}', 'null', '{"strategy":"hash","shards":["a"]}', '{"strategy":"jump"}']) {
+      expect(() => ShardMap.fromJSON(json)).toThrow(expect.objectContaining({ code: 'invalid_shard_map' }));
+    }
+    expect(() => ShardMap.fromJSON({ strategy: 'range', ranges: [] })).toThrow(PfidError);
+  });
+});
+
+describe('plan', () => {
+  test('lists the ranges that move', () => {
+    const before = ShardMap.range(ranges);
+    const after = ShardMap.range([
+      { start: 0, end: 1999, shard: 'a' },
+      { start: 2000, end: 499_999_999, shard: 'b' },
+      { start: 500_000_000, end: 599_999_999, shard: 'c' },
+      { start: 600_000_000, end: MAX_PARTITION, shard: 'a' },
+    ]);
+
+    expect(before.plan(after)).toEqual([
+      { start: 1000, end: 1999, from: 'b', to: 'a' },
+      { start: 500_000_000, end: 599_999_999, from: 'a', to: 'c' },
+    ]);
+    expect(after.plan(before)).toEqual([
+      { start: 1000, end: 1999, from: 'a', to: 'b' },
+      { start: 500_000_000, end: 599_999_999, from: 'c', to: 'a' },
+    ]);
+  });
+
+  test('merges adjacent ranges with the same move', () => {
+    const before = ShardMap.range([
+      { start: 0, end: 9, shard: 'a' },
+      { start: 10, end: MAX_PARTITION, shard: 'a' },
+    ]);
+
+    expect(before.plan(ShardMap.evenRanges(['b']))).toEqual([{ start: 0, end: MAX_PARTITION, from: 'a', to: 'b' }]);
+  });
+
+  test('merges adjacent moved blocks between jump maps', () => {
+    const moves = ShardMap.jump(['a', 'b', 'c']).plan(ShardMap.jump(['a', 'b', 'c', 'd']));
+
+    for (let i = 1; i < moves.length; i++) {
+      const [last, move] = [moves[i - 1], moves[i]];
+      expect(last.end + 1 === move.start && last.from === move.from && last.to === move.to).toBe(false);
+    }
+    const blocks = moves.reduce((total, move) => total + (move.end - move.start + 1) / 65536, 0);
+    expect(moves.length).toBeLessThan(blocks);
+  });
+
+  test('plans between a range map and a jump map', () => {
+    const before = ShardMap.evenRanges(['a', 'b']);
+    const after = ShardMap.jump(['a', 'b']);
+    const moves = before.plan(after);
+
+    for (const move of moves) {
+      expect(before.shardForPartition(move.start)).toBe(move.from);
+      expect(before.shardForPartition(move.end)).toBe(move.from);
+      expect(after.shardForPartition(move.start)).toBe(move.to);
+      expect(after.shardForPartition(move.end)).toBe(move.to);
+    }
+    // Every partition outside the moves stays put
+    let start = 0;
+    for (const move of [...moves, { start: MAX_PARTITION + 1, end: 0 }]) {
+      if (move.start > start) {
+        expect(after.shardForPartition(start)).toBe(before.shardForPartition(start));
+        expect(after.shardForPartition(move.start - 1)).toBe(before.shardForPartition(move.start - 1));
+      }
+      start = move.end + 1;
+    }
+  });
+
+  test('is empty between identical maps', () => {
+    expect(ShardMap.evenRanges(['a', 'b']).plan(ShardMap.evenRanges(['a', 'b']))).toEqual([]);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, test, expect } from 'vitest';
+import { createHmac } from 'crypto';
+import { sign, verify, generate, generateWithTimestamp, encode } from '../src';
+
+const example = '01an4z07byd9df0k79ka1307sr9x4mv3';
+const secret = 'correct horse battery staple';
+const expiresAt = 1_700_000_000_000;
+
+
+// Flip one character to another valid one
+function tamper(token: string, index: number): string {
+  const replacement = token[index] === '0' ? '1' : '0';
+  return token.substring(0, index) + replacement + token.substring(index + 1);
+}
+
+describe('sign', () => {
+  test('appends the first 80 bits of the HMAC-SHA256 tag', async () => {
+    const token = await sign(example, secret);
+    const mac = createHmac('sha256', secret).update(example).digest();
+
+    expect(token).toHaveLength(48);
+    expect(token.substring(0, 32)).toBe(example);
+    // The 80-bit tag encodes the same way as the randomness of a PFID
+    const tag = encode(new Uint8Array([...new Uint8Array(10), ...mac.subarray(0, 10)])).substring(16);
+    expect(token.substring(32)).toBe(tag);
+  });
+
+  test('encodes the expiry like a PFID timestamp', async () => {
+    const token = await sign(example, secret, { expiresAt });
+
+    expect(token).toHaveLength(58);
+    expect(token.substring(32, 42)).toBe(generateWithTimestamp(0, expiresAt).substring(0, 10));
+  });
+
+  test('accepts the expiry as a Date', async () => {
+    expect(await sign(example, secret, { expiresAt: new Date(expiresAt) })).toBe(
+      await sign(example, secret, { expiresAt }),
+    );
+  });
+
+  test('accepts the secret as bytes', async () => {
+    expect(await sign(example, new TextEncoder().encode(secret))).toBe(await sign(example, secret));
+  });
+
+  test('throws for invalid input', async () => {
+    await expect(sign('invalid', secret)).rejects.toMatchObject({ code: 'invalid_pfid' });
+    await expect(sign(example, '')).rejects.toMatchObject({ code: 'invalid_key' });
+    await expect(sign(example, 123 as any)).rejects.toMatchObject({ code: 'invalid_key' });
+    await expect(sign(example, secret, { expiresAt: -1 })).rejects.toMatchObject({ code: 'invalid_timestamp' });
+    await expect(sign(example, secret, { expiresAt: new Date(NaN) })).rejects.toMatchObject({
+      code: 'invalid_timestamp',
+    });
+  });
+});
+
+describe('verify', () => {
+  test('returns the PFID', async () => {
+    const pfid = generate(123_456_789);
+
+    expect(await verify(await sign(pfid, secret), secret)).toBe(pfid);
+    expect(await verify((await sign(pfid, secret)).toUpperCase(), secret)).toBe(pfid);
+  });
+
+  test('returns the PFID before the expiry', async () => {
+    const token = await sign(example, secret, { expiresAt });
+
+    expect(await verify(token, secret, { now: expiresAt - 1 })).toBe(example);
+    expect(await verify(token, secret, { now: new Date(expiresAt - 1) })).toBe(example);
+  });
+
+  test('throws token_expired from the expiry on', async () => {
+    const token = await sign(example, secret, { expiresAt });
+
+    await expect(verify(token, secret, { now: expiresAt })).rejects.toMatchObject({ code: 'token_expired' });
+    await expect(verify(token, secret)).rejects.toMatchObject({ code: 'token_expired' });
+  });
+
+  test('throws invalid_signature for the wrong secret', async () => {
+    await expect(verify(await sign(example, secret), 'another secret')).rejects.toMatchObject({
+      code: 'invalid_signature',
+    });
+  });
+
+  test('throws invalid_signature for any changed character', async () => {
+    const token = await sign(example, secret, { expiresAt });
+
+    for (let index = 0; index < token.length; index++) {
+      await expect(verify(tamper(token, index), secret, { now: 0 })).rejects.toMatchObject({
+        code: 'invalid_signature',
+      });
+    }
+    await expect(verify(token.substring(0, 57) + 'u', secret, { now: 0 })).rejects.toMatchObject({
+      code: 'invalid_signature',
+    });
+  });
+
+  test('checks the signature before the expiry', async () => {
+    const token = await sign(example, secret, { expiresAt });
+
+    await expect(verify(token, 'another secret')).rejects.toMatchObject({ code: 'invalid_signature' });
+  });
+
+  test('throws invalid_signature when the expiry is removed or added', async () => {
+    const expiring = await sign(example, secret, { expiresAt });
+    const plain = await sign(example, secret);
+
+    await expect(verify(example + expiring.substring(42), secret)).rejects.toMatchObject({ code: 'invalid_signature' });
+    await expect(
+      verify(plain.substring(0, 32) + expiring.substring(32, 42) + plain.substring(32), secret),
+    ).rejects.toMatchObject({ code: 'invalid_signature' });
+  });
+
+  test('throws invalid_token for malformed tokens', async () => {
+    const token = await sign(example, secret);
+
+    await expect(verify(example, secret)).rejects.toMatchObject({ code: 'invalid_token' });
+    await expect(verify(token + '0', secret)).rejects.toMatchObject({ code: 'invalid_token' });
+    await expect(verify('8' + token.substring(1), secret)).rejects.toMatchObject({ code: 'invalid_token' });
+    await expect(verify(undefined as any, secret)).rejects.toMatchObject({ code: 'invalid_token' });
+  });
+
+  test('throws invalid_key for an invalid secret', async () => {
+    await expect(verify(await sign(example, secret), new Uint8Array(0))).rejects.toMatchObject({ code: 'invalid_key' });
+  });
+});
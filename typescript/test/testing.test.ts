@@ -0,0 +1,172 @@
+import { describe, test, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  arbitraryBinaryPfid,
+  arbitraryInvalidPfid,
+  arbitraryPartition,
+  arbitraryPfid,
+  arbitraryTimestamp,
+  pfidMatchers,
+  pfidSnapshotSerializer,
+} from '../src/testing';
+import { decode, extractPartition, generate, generateWithTimestamp, isPfid, parse, validate } from '../src';
+
+const example = '01an4z07byd9df0k79ka1307sr9x4mv3';
+
+describe('arbitraries', () => {
+  test('arbitraryPfid generates valid PFIDs', () => {
+    fc.assert(fc.property(arbitraryPfid(), (pfid) => isPfid(pfid)));
+  });
+
+  test('arbitraryPfid respects the options', () => {
+    const options = { partition: 42, minTimestamp: 1_000, maxTimestamp: 2_000 };
+
+    fc.assert(
+      fc.property(arbitraryPfid(options), (pfid) => {
+        const { partition, timestamp } = parse(pfid);
+        return partition === 42 && timestamp >= 1_000 && timestamp <= 2_000;
+      }),
+    );
+  });
+
+  test('arbitraryBinaryPfid generates valid, canonical binaries', () => {
+    fc.assert(fc.property(arbitraryBinaryPfid(), (binary) => validate(binary).ok && binary.length === 20));
+  });
+
+  test('arbitraryPartition and arbitraryTimestamp stay in range', () => {
+    fc.assert(fc.property(arbitraryPartition(), (partition) => partition >= 0 && partition <= 1_073_741_823));
+    fc.assert(
+      fc.property(
+        arbitraryTimestamp(),
+        (timestamp) => Number.isInteger(timestamp) && timestamp >= 0 && timestamp <= 281_474_976_710_655,
+      ),
+    );
+  });
+
+  test('arbitraryTimestamp reaches the extremes', () => {
+    const samples = fc.sample(arbitraryTimestamp(), { numRuns: 1000, seed: 1 });
+
+    expect(samples.some((timestamp) => timestamp > 2 ** 32)).toBe(true);
+    expect(fc.sample(arbitraryTimestamp(5, 5), 3)).toEqual([5, 5, 5]);
+  });
+
+  test('arbitraryInvalidPfid generates strings that strict mode rejects', () => {
+    fc.assert(fc.property(arbitraryInvalidPfid(), (text) => !isPfid(text) && !validate(text).ok));
+  });
+
+  test('arbitraryInvalidPfid covers each kind of mistake', () => {
+    const reasons = new Set<string>();
+    for (const text of fc.sample(arbitraryInvalidPfid(), { numRuns: 500, seed: 1 })) {
+      const result = validate(text);
+      if (!result.ok) {
+        reasons.add(result.issues[0].reason);
+      }
+    }
+
+    expect([...reasons].sort()).toEqual(
+      ['invalid_character', 'non_canonical_case', 'timestamp_overflow', 'wrong_length'].sort(),
+    );
+  });
+});
+
+describe('toBeValidPfid', () => {
+  test('passes for valid PFIDs', () => {
+    expect(example).toBeValidPfid();
+    expect('invalid').not.toBeValidPfid();
+    expect(decode(example)).not.toBeValidPfid();
+  });
+
+  test('explains why a PFID is invalid', () => {
+    expect(pfidMatchers.toBeValidPfid('8' + example.slice(1)).message()).toBe(
+      `expected "8${example.slice(1)}" to be a valid PFID, but first character must be 0-7, got "8"`,
+    );
+    expect(pfidMatchers.toBeValidPfid(123).message()).toBe('expected 123 to be a valid PFID, but it is not a string');
+    expect(() => expect('abc').toBeValidPfid()).toThrow(/expected "abc" to be a valid PFID, but expected 32 characters/);
+  });
+
+  test('explains a negated failure', () => {
+    expect(() => expect(example).not.toBeValidPfid()).toThrow(`expected "${example}" not to be a valid PFID`);
+  });
+});
+
+describe('toHavePartition', () => {
+  test('checks the partition of a PFID or binary', () => {
+    expect(generate(42)).toHavePartition(42);
+    expect(decode(generate(42))).toHavePartition(42);
+    expect(generate(42)).not.toHavePartition(43);
+  });
+
+  test('fails for invalid PFIDs', () => {
+    expect('invalid').not.toHavePartition(0);
+    expect(() => expect('invalid').toHavePartition(0)).toThrow('expected "invalid" to be a valid PFID in partition 0');
+  });
+
+  test('explains a mismatch', () => {
+    expect(() => expect(generate(42)).toHavePartition(43)).toThrow(/to be in partition 43, but it is in 42$/);
+  });
+});
+
+describe('toBeCreatedBetween', () => {
+  const pfid = generateWithTimestamp(1, Date.parse('2024-06-01T00:00:00Z'));
+
+  test('checks the timestamp is in the inclusive range', () => {
+    expect(pfid).toBeCreatedBetween(new Date('2024-01-01'), new Date('2025-01-01'));
+    expect(pfid).toBeCreatedBetween(Date.parse('2024-06-01T00:00:00Z'), Date.parse('2024-06-01T00:00:00Z'));
+    expect(decode(pfid)).toBeCreatedBetween(new Date('2024-01-01'), new Date('2025-01-01'));
+    expect(pfid).not.toBeCreatedBetween(new Date('2023-01-01'), new Date('2024-01-01'));
+  });
+
+  test('checks a freshly generated PFID', () => {
+    const before = Date.now();
+    const fresh = generate(1);
+
+    expect(fresh).toBeCreatedBetween(before, Date.now());
+  });
+
+  test('explains a mismatch', () => {
+    expect(() => expect(pfid).toBeCreatedBetween(new Date('2023-01-01'), new Date('2024-01-01'))).toThrow(
+      /to be created between 2023-01-01T00:00:00.000Z and 2024-01-01T00:00:00.000Z, but it was created at 2024-06-01T00:00:00.000Z$/,
+    );
+    expect('invalid').not.toBeCreatedBetween(0, Date.now());
+  });
+});
+
+describe('pfidSnapshotSerializer', () => {
+  expect.addSnapshotSerializer(pfidSnapshotSerializer);
+
+  test('masks the randomness of PFIDs', () => {
+    expect({ id: example, name: 'order' }).toMatchInlineSnapshot(`
+      {
+        "id": "01an4z07byd9df0k****************",
+        "name": "order",
+      }
+    `);
+  });
+
+  test('gives the same snapshot for PFIDs with the same timestamp and partition', () => {
+    const pfids = [generateWithTimestamp(7, 1_000), generateWithTimestamp(7, 1_000)];
+
+    expect(pfids[0]).not.toBe(pfids[1]);
+    expect(pfids).toMatchInlineSnapshot(`
+      [
+        "00000000z8000007****************",
+        "00000000z8000007****************",
+      ]
+    `);
+  });
+
+  test('only applies to valid PFIDs', () => {
+    expect(pfidSnapshotSerializer.test(example)).toBe(true);
+    expect(pfidSnapshotSerializer.test(example.toUpperCase())).toBe(false);
+    expect(pfidSnapshotSerializer.test('invalid')).toBe(false);
+    expect(pfidSnapshotSerializer.test(decode(example))).toBe(false);
+  });
+
+  test('keeps the timestamp and partition', () => {
+    const pfid = generate(123_456_789);
+    const masked = pfidSnapshotSerializer.serialize(pfid);
+
+    expect(masked).toBe(`"${pfid.substring(0, 16)}${'*'.repeat(16)}"`);
+    expect(extractPartition(masked.substring(1, 17) + '0'.repeat(16))).toBe(123_456_789);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, test, expect, expectTypeOf } from 'vitest';
+import {
+  definePfidType,
+  extractPartition,
+  generate,
+  generateRelated,
+  isPfid,
+  PfidError,
+  type Partition,
+  type Pfid,
+} from '../src';
+
+const OrderId = definePfidType<'order'>();
+const UserId = definePfidType<'user'>();
+
+const example = '01an4z07byd9df0k79ka1307sr9x4mv3';
+
+describe('definePfidType', () => {
+  test('generate returns a PFID of the type', () => {
+    const order = OrderId.generate(42);
+
+    expect(isPfid(order)).toBe(true);
+    expect(extractPartition(order)).toBe(42);
+    expectTypeOf(order).toEqualTypeOf<Pfid<'order'>>();
+  });
+
+  test('is narrows unknown values', () => {
+    const value: unknown = example;
+
+    expect(OrderId.is(value)).toBe(true);
+    expect(OrderId.is('invalid')).toBe(false);
+    expect(OrderId.is(123)).toBe(false);
+    if (OrderId.is(value)) {
+      expectTypeOf(value).toEqualTypeOf<Pfid<'order'>>();
+    }
+  });
+
+  test('parse validates and brands a PFID', () => {
+    const order = OrderId.parse(example.toUpperCase());
+
+    expect(order).toBe(example);
+    expectTypeOf(order).toEqualTypeOf<Pfid<'order'>>();
+  });
+
+  test('parse throws error for invalid PFIDs', () => {
+    expect(() => OrderId.parse('invalid')).toThrow(PfidError);
+    expect(() => OrderId.parse(null)).toThrow(expect.objectContaining({ reason: 'invalid_type' }));
+  });
+
+  test('related generates in the partition of a PFID of another type', () => {
+    const user = UserId.generate(42);
+    const order = OrderId.related(user);
+
+    expect(extractPartition(order)).toBe(42);
+    expectTypeOf(order).toEqualTypeOf<Pfid<'order'>>();
+  });
+
+  test('related throws error for invalid PFIDs', () => {
+    expect(() => OrderId.related('invalid')).toThrow(PfidError);
+  });
+});
+
+describe('branded types', () => {
+  test('IDs of different types are not interchangeable', () => {
+    const user = UserId.generate(1);
+
+    expectTypeOf(user).not.toEqualTypeOf<Pfid<'order'>>();
+    // @ts-expect-error -- a user ID is not an order ID
+    const order: Pfid<'order'> = user;
+    expect(order).toBe(user);
+  });
+
+  test('branded IDs are still strings and PFIDs', () => {
+    expectTypeOf<Pfid<'order'>>().toExtend<string>();
+    expectTypeOf<Pfid<'order'>>().toExtend<Pfid>();
+  });
+
+  test('plain strings are accepted as PFIDs', () => {
+    expectTypeOf<string>().toExtend<Pfid>();
+    expectTypeOf<string>().toExtend<Pfid<'order'>>();
+  });
+
+  test('isPfid narrows to Pfid in strict mode only', () => {
+    const value: unknown = example;
+
+    if (isPfid(value)) {
+      expectTypeOf(value).toEqualTypeOf<Pfid>();
+    }
+    expectTypeOf(isPfid(value, { mode: 'lenient' })).toEqualTypeOf<boolean>();
+  });
+
+  test('generateRelated preserves the type', () => {
+    const order = OrderId.generate(7);
+
+    expectTypeOf(generateRelated(order)).toEqualTypeOf<Pfid<'order'>>();
+    expectTypeOf(generateRelated(generate(7))).toEqualTypeOf<Pfid>();
+    expect(extractPartition(generateRelated(order))).toBe(7);
+  });
+
+  test('extractPartition accepts PFIDs of any type', () => {
+    expectTypeOf(extractPartition).toBeCallableWith(OrderId.generate(7));
+    expectTypeOf(extractPartition(OrderId.generate(7))).toEqualTypeOf<Partition>();
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, test, expect } from 'vitest';
+import {
+  validate,
+  decode,
+  encode,
+  extractPartition,
+  generate,
+  generateBinary,
+  PfidError,
+} from '../src';
+
+const example = '01an4z07byd9df0k79ka1307sr9x4mv3';
+
+describe('validate', () => {
+  test('accepts valid PFIDs and binaries', () => {
+    expect(validate(example)).toEqual({ ok: true });
+    expect(validate(generate(1))).toEqual({ ok: true });
+    expect(validate(generateBinary(1))).toEqual({ ok: true });
+  });
+
+  test('reports the wrong length', () => {
+    expect(validate('012')).toEqual({
+      ok: false,
+      issues: [{ reason: 'wrong_length', message: 'expected 32 characters, got 3' }],
+    });
+  });
+
+  test('reports a timestamp overflow in the first character', () => {
+    expect(validate('8' + example.slice(1))).toEqual({
+      ok: false,
+      issues: [{ reason: 'timestamp_overflow', position: 0, message: 'first character must be 0-7, got "8"' }],
+    });
+  });
+
+  test('reports every invalid character with its position', () => {
+    const result = validate('0u' + example.slice(2, 30) + '!l');
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.issues).toEqual([
+      { reason: 'invalid_character', position: 1, message: 'invalid character "u" at position 1' },
+      { reason: 'invalid_character', position: 30, message: 'invalid character "!" at position 30' },
+      { reason: 'invalid_character', position: 31, message: 'invalid character "l" at position 31' },
+    ]);
+  });
+
+  test('reports non-canonical casing', () => {
+    const result = validate(example.slice(0, 2) + 'A' + example.slice(3));
+
+    expect(!result.ok && result.issues).toEqual([
+      { reason: 'non_canonical_case', position: 2, message: 'uppercase character "A" at position 2' },
+    ]);
+  });
+
+  test('reports several issues at once', () => {
+    const result = validate('9A');
+
+    expect(!result.ok && result.issues.map((issue) => issue.reason)).toEqual([
+      'wrong_length',
+      'timestamp_overflow',
+      'non_canonical_case',
+    ]);
+  });
+
+  test('reports binaries of the wrong length', () => {
+    expect(validate(new Uint8Array(19))).toEqual({
+      ok: false,
+      issues: [{ reason: 'wrong_length', message: 'expected 20 bytes, got 19' }],
+    });
+  });
+
+  test('reports non-zero padding bits in binaries', () => {
+    const binary = generateBinary(1);
+    binary[6] |= 0x40;
+
+    expect(validate(binary)).toEqual({
+      ok: false,
+      issues: [{ reason: 'non_zero_padding', position: 48, message: 'padding bits 48-49 must be zero' }],
+    });
+  });
+
+  test('reports other types', () => {
+    expect(validate(123)).toEqual({
+      ok: false,
+      issues: [{ reason: 'invalid_type', message: 'expected a string or binary PFID, got number' }],
+    });
+    expect(!validate(null).ok).toBe(true);
+  });
+});
+
+describe('PfidError details', () => {
+  test('decode reports the reason and position', () => {
+    expect(() => decode(example.slice(0, 31) + 'u')).toThrow(
+      expect.objectContaining({
+        code: 'invalid_character',
+        reason: 'invalid_character',
+        position: 31,
+        message: `invalid PFID: invalid character "u" at position 31: "${example.slice(0, 31)}u"`,
+      })
+    );
+  });
+
+  test('decode does not blame the casing it accepts', () => {
+    expect(() => decode(example.toUpperCase().slice(0, 31) + 'U')).toThrow(
+      expect.objectContaining({ reason: 'invalid_character', position: 31 })
+    );
+  });
+
+  test('extractPartition reports the reason', () => {
+    expect(() => extractPartition('abc')).toThrow(expect.objectContaining({ reason: 'wrong_length' }));
+    expect(() => extractPartition('8' + example.slice(1))).toThrow(
+      expect.objectContaining({ reason: 'timestamp_overflow' })
+    );
+  });
+
+  test('encode reports the reason and describes binaries in hex', () => {
+    expect(() => encode(new Uint8Array([1, 2, 0xff]))).toThrow(
+      expect.objectContaining({
+        code: 'invalid_binary',
+        reason: 'wrong_length',
+        message: 'invalid binary PFID: expected 20 bytes, got 3: <3 bytes: 0102ff>',
+      })
+    );
+  });
+
+  test('errors without an issue have no reason', () => {
+    const error = PfidError.make('invalid_partition', -1);
+
+    expect(error.reason).toBeUndefined();
+    expect(error.position).toBeUndefined();
+    expect(error.message).toBe('invalid partition: -1');
+  });
+});
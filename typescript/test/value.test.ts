@@ -0,0 +1,107 @@
+import { describe, test, expect } from 'vitest';
+import { inspect } from 'util';
+import { PfidValue, decode, generateBinaryWithTimestamp, generateWithTimestamp, PfidError } from '../src';
+
+const example = '01an4z07byd9df0k79ka1307sr9x4mv3';
+
+describe('PfidValue.from', () => {
+  test('wraps a PFID string', () => {
+    expect(PfidValue.from(example).toString()).toBe(example);
+  });
+
+  test('normalizes an uppercase PFID string', () => {
+    expect(PfidValue.from(example.toUpperCase()).toString()).toBe(example);
+  });
+
+  test('wraps a binary PFID without aliasing it', () => {
+    const binary = decode(example);
+    const value = PfidValue.from(binary);
+    binary.fill(0);
+
+    expect(value.toString()).toBe(example);
+    expect(value.toBinary()).toEqual(decode(example));
+  });
+
+  test('returns an existing value as is', () => {
+    const value = PfidValue.from(example);
+
+    expect(PfidValue.from(value)).toBe(value);
+  });
+
+  test('throws error for invalid input', () => {
+    expect(() => PfidValue.from('invalid')).toThrow(PfidError);
+    expect(() => PfidValue.from('8' + example.slice(1))).toThrow(expect.objectContaining({ reason: 'timestamp_overflow' }));
+    expect(() => PfidValue.from(new Uint8Array(19))).toThrow(/invalid binary/);
+    expect(() => PfidValue.from(123 as any)).toThrow(PfidError);
+  });
+});
+
+describe('PfidValue properties', () => {
+  test('expose the parts of the PFID', () => {
+    const value = PfidValue.from(generateWithTimestamp(123_456_789, 1_234_567_890_000));
+
+    expect(value.partition).toBe(123_456_789);
+    expect(value.timestamp).toBe(1_234_567_890_000);
+    expect(value.date).toEqual(new Date(1_234_567_890_000));
+  });
+
+  test('return a new Date and binary each time', () => {
+    const value = PfidValue.from(example);
+    value.date.setTime(0);
+    value.toBinary().fill(0);
+
+    expect(value.timestamp).not.toBe(0);
+    expect(value.toBinary()).toEqual(decode(example));
+  });
+});
+
+describe('PfidValue conversions', () => {
+  test('serialize to the string in JSON', () => {
+    expect(JSON.stringify({ id: PfidValue.from(example) })).toBe(`{"id":"${example}"}`);
+  });
+
+  test('convert to the string as a primitive', () => {
+    const value = PfidValue.from(example);
+
+    expect(`${value}`).toBe(example);
+    expect(value + '').toBe(example);
+  });
+
+  test('compare in sort order with < and >', () => {
+    const earlier = PfidValue.from(generateWithTimestamp(1, 1_000));
+    const later = PfidValue.from(generateWithTimestamp(0, 2_000));
+
+    expect(earlier < later).toBe(true);
+    expect(earlier > later).toBe(false);
+  });
+
+  test('inspect as the PFID', () => {
+    expect(inspect(PfidValue.from(example))).toBe(`PfidValue(${example})`);
+    expect(inspect({ id: PfidValue.from(example) })).toBe(`{ id: PfidValue(${example}) }`);
+  });
+});
+
+describe('PfidValue comparison', () => {
+  test('equals the same ID in any form', () => {
+    const value = PfidValue.from(example);
+
+    expect(value.equals(example)).toBe(true);
+    expect(value.equals(decode(example))).toBe(true);
+    expect(value.equals(PfidValue.from(decode(example)))).toBe(true);
+    expect(value.equals(generateWithTimestamp(1, 1_000))).toBe(false);
+  });
+
+  test('compareTo orders like compare', () => {
+    const earlier = PfidValue.from(generateBinaryWithTimestamp(1, 1_000));
+    const later = PfidValue.from(generateWithTimestamp(0, 2_000));
+
+    expect(earlier.compareTo(later)).toBe(-1);
+    expect(later.compareTo(earlier)).toBe(1);
+    expect(earlier.compareTo(earlier.toBinary())).toBe(0);
+    expect([later, earlier].sort((a, b) => a.compareTo(b))).toEqual([earlier, later]);
+  });
+
+  test('throw error for an invalid other PFID', () => {
+    expect(() => PfidValue.from(example).equals('invalid')).toThrow(PfidError);
+  });
+});
@@ -3,7 +3,11 @@ import { defineConfig } from 'vitest/config';
 export default defineConfig({
   test: {
     include: ['test/**/*.test.ts'],
+    setupFiles: ['test/setup.ts'],
     globals: true,
+    benchmark: {
+      include: ['bench/**/*.bench.ts'],
+    },
   },
   esbuild: {
     target: 'node20',